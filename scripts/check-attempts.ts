@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+
+import { type AttemptLabels, formatAttempts } from "../src/attempts.ts";
+
+const labels: AttemptLabels = {
+  date: "Date",
+  status: "Status",
+  language: "Language",
+  runtime: "Runtime",
+  memory: "Memory",
+  input: "Input",
+  expected: "Expected",
+  output: "Output",
+  error: "Error"
+};
+
+// Local time, so the check does not depend on the machine's time zone.
+const first = new Date(2024, 1, 10, 9, 5).getTime() / 1000;
+const second = new Date(2024, 1, 10, 9, 30).getTime() / 1000;
+
+const attempts = [
+  {
+    id: "1",
+    status: "Wrong Answer",
+    lang: "python3",
+    runtime: "N/A",
+    timestamp: first,
+    code: "return []",
+    testcase: { input: "[2,7]\n9", expected: "[0,1]", output: "[]" }
+  },
+  {
+    id: "2",
+    status: "Accepted",
+    lang: "python3",
+    runtime: "52 ms",
+    memory: "17 MB",
+    timestamp: second
+  }
+];
+
+assert.equal(formatAttempts([], labels), "");
+
+const table = formatAttempts(attempts, labels);
+assert.equal(
+  table,
+  [
+    "| Date | Status | Language | Runtime | Memory |",
+    "| --- | --- | --- | --- | --- |",
+    "| 2024-02-10 09:05 | Wrong Answer | python3 | N/A |  |",
+    "| 2024-02-10 09:30 | Accepted | python3 | 52 ms | 17 MB |"
+  ].join("\n")
+);
+
+const detailed = formatAttempts(attempts, labels, true);
+assert.ok(detailed.startsWith(table));
+assert.ok(
+  detailed.endsWith(
+    [
+      "> [!failure]- 2024-02-10 09:05 · Wrong Answer · python3",
+      "> Input:",
+      "> ```",
+      "> [2,7]",
+      "> 9",
+      "> ```",
+      "> Expected:",
+      "> ```",
+      "> [0,1]",
+      "> ```",
+      "> Output:",
+      "> ```",
+      "> []",
+      "> ```",
+      "> ```python3",
+      "> return []",
+      "> ```"
+    ].join("\n")
+  )
+);
+
+// Pipes in cells must not break the table.
+assert.ok(formatAttempts([{ id: "3", status: "A|B" }], labels).includes("A\\|B"));
+
+console.log("check-attempts: ok");
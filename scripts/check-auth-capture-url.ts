@@ -8,3 +8,8 @@ assert.equal(isReadyToCaptureAuth("https://leetcode.com/accounts/github/login/")
 assert.equal(isReadyToCaptureAuth("https://leetcode.com/"), true);
 assert.equal(isReadyToCaptureAuth("https://leetcode.com/problemset/"), true);
 assert.equal(isReadyToCaptureAuth("https://accounts.google.com/"), false);
+
+assert.equal(isReadyToCaptureAuth("https://leetcode.cn/problemset/", "cn"), true);
+assert.equal(isReadyToCaptureAuth("https://leetcode.cn/accounts/login/", "cn"), false);
+assert.equal(isReadyToCaptureAuth("https://leetcode.com/", "cn"), false);
+assert.equal(isReadyToCaptureAuth("https://leetcode.cn/"), false);
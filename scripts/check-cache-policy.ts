@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+
+import { type CacheEntry, isFresh, readThrough } from "../src/cachePolicy.ts";
+
+const HOUR = 60 * 60 * 1000;
+const now = Date.parse("2024-01-08T00:00:00Z");
+const entry = (ageHours: number): CacheEntry<string> => ({
+  fetchedAt: now - ageHours * HOUR,
+  value: "cached"
+});
+
+assert.equal(isFresh(entry(167), 168, now), true);
+assert.equal(isFresh(entry(168), 168, now), false);
+assert.equal(isFresh(entry(0), 0, now), false);
+assert.equal(isFresh(entry(0), -5, now), false);
+
+const stored: Array<CacheEntry<string>> = [];
+const store = (value: CacheEntry<string>) => stored.push(value);
+const fetched = () => Promise.resolve("fetched");
+const offline = () => Promise.reject(new Error("offline"));
+
+// Fresh entries skip the request.
+assert.equal(await readThrough(entry(1), offline, store, { ttlHours: 168, now }), "cached");
+assert.equal(stored.length, 0);
+
+// Stale or missing entries are refetched and stored.
+assert.equal(await readThrough(entry(200), fetched, store, { ttlHours: 168, now }), "fetched");
+assert.equal(await readThrough(undefined, fetched, store, { ttlHours: 168, now }), "fetched");
+assert.deepEqual(stored, [
+  { fetchedAt: now, value: "fetched" },
+  { fetchedAt: now, value: "fetched" }
+]);
+
+// A failed refetch serves the stale entry, unless the refetch was forced.
+assert.equal(await readThrough(entry(200), offline, store, { ttlHours: 168, now }), "cached");
+await assert.rejects(
+  readThrough(entry(200), offline, store, { ttlHours: 168, force: true, now }),
+  /offline/
+);
+await assert.rejects(readThrough(undefined, offline, store, { ttlHours: 168, now }), /offline/);
+assert.equal(
+  await readThrough(entry(1), fetched, store, { ttlHours: 168, force: true, now }),
+  "fetched"
+);
+
+console.log("check-cache-policy: ok");
@@ -0,0 +1,147 @@
+import assert from "node:assert/strict";
+
+import {
+  bestComplexity,
+  complexityRank,
+  estimateComplexity,
+  formatComplexityLine,
+  noteComplexities,
+  parseComplexityLine,
+  withEstimatedComplexity
+} from "../src/solutions/complexity.ts";
+
+assert.equal(formatComplexityLine({ time: "O(n)", space: "O(1)" }), "Time: O(n) · Space: O(1)");
+assert.equal(formatComplexityLine({ time: " O(n) " }), "Time: O(n)");
+assert.equal(formatComplexityLine({}), "");
+assert.deepEqual(parseComplexityLine("Time: O(n log n) · Space: O(n)"), {
+  time: "O(n log n)",
+  space: "O(n)"
+});
+assert.deepEqual(parseComplexityLine("Space: O(1)"), { space: "O(1)" });
+assert.equal(parseComplexityLine("python3 · Runtime: 52 ms"), null);
+assert.deepEqual(
+  noteComplexities(
+    [
+      "## Solutions",
+      "python3 · Runtime: 52 ms",
+      "Time: O(n) · Space: O(1)",
+      "",
+      "```python3",
+      "Time: O(1)",
+      "```",
+      "Space: O(n)"
+    ].join("\n")
+  ),
+  [{ time: "O(n)", space: "O(1)" }, { space: "O(n)" }]
+);
+
+const order = ["O(1)", "O(log n)", "O(n)", "O(n log n)", "O(n^2)", "O(n^3)", "O(2^n)", "O(n!)"];
+for (let i = 1; i < order.length; i++) {
+  assert.ok(complexityRank(order[i - 1] ?? "") < complexityRank(order[i] ?? ""), order[i]);
+}
+assert.equal(complexityRank("O(n·m)"), complexityRank("O(n^2)"));
+assert.equal(complexityRank("O(V + E)"), complexityRank("O(n)"));
+assert.equal(complexityRank("O(n * log(n))"), complexityRank("O(n log n)"));
+assert.equal(complexityRank("fast"), Infinity);
+
+assert.deepEqual(
+  bestComplexity([
+    { time: "O(n^2)", space: "O(1)" },
+    { time: "O(n)", space: "O(n)" },
+    { time: "O(n)", space: "O(1)" },
+    { space: "O(1)" }
+  ]),
+  { time: "O(n)", space: "O(1)" }
+);
+assert.equal(bestComplexity([{ space: "O(1)" }]), null);
+
+const python = (body: string) => `class Solution:\n    def solve(self, nums):\n${body}`;
+
+assert.deepEqual(
+  estimateComplexity(
+    python(
+      [
+        "        seen = {}",
+        "        for i, x in enumerate(nums):  # for while",
+        "            seen[x] = i"
+      ].join("\n")
+    ),
+    "python3"
+  ),
+  { time: "O(n)", space: "O(n)" }
+);
+assert.deepEqual(
+  estimateComplexity(
+    python(
+      [
+        "        for i in range(len(nums)):",
+        "            for j in range(i):",
+        "                pass"
+      ].join("\n")
+    ),
+    "python3"
+  ),
+  { time: "O(n^2)", space: "O(1)" }
+);
+assert.deepEqual(
+  estimateComplexity(
+    python(
+      [
+        "        lo, hi = 0, len(nums) - 1",
+        "        while lo < hi:",
+        "            mid = (lo + hi) // 2",
+        "            lo = mid + 1"
+      ].join("\n")
+    ),
+    "python3"
+  ),
+  { time: "O(log n)", space: "O(1)" }
+);
+assert.deepEqual(
+  estimateComplexity(
+    python("        return self.solve(nums[1:]) + self.solve(nums[2:]) if nums else 0"),
+    "python3"
+  ).time,
+  "O(2^n)"
+);
+assert.deepEqual(
+  estimateComplexity(
+    [
+      "int solve(vector<int>& nums) {",
+      "    sort(nums.begin(), nums.end());",
+      "    int total = 0;",
+      "    for (int i = 0; i < nums.size(); i++) total += nums[i];",
+      "    return total;",
+      "}"
+    ].join("\n"),
+    "cpp"
+  ),
+  { time: "O(n log n)", space: "O(1)" }
+);
+assert.deepEqual(
+  estimateComplexity(
+    [
+      "int[][] solve(int n, int m) {",
+      "    int[][] dp = new int[n][m];",
+      "    for (int i = 0; i < n; i++) {",
+      "        for (int j = 0; j < m; j++) dp[i][j] = 1;",
+      "    }",
+      "    return dp;",
+      "}"
+    ].join("\n"),
+    "java"
+  ),
+  { time: "O(n^2)", space: "O(n^2)" }
+);
+assert.deepEqual(
+  estimateComplexity("var climb = function(n) { return n < 2 ? 1 : climb(n - 1) + climb(n - 2); };", "javascript"),
+  { time: "O(2^n)", space: "O(n)" }
+);
+
+// Entered values are kept; only missing ones are estimated.
+assert.deepEqual(
+  withEstimatedComplexity({ code: "return 1", lang: "python3", timeComplexity: "O(n)" }),
+  { code: "return 1", lang: "python3", timeComplexity: "O(n)", spaceComplexity: "O(1)" }
+);
+
+console.log("check-complexity: ok");
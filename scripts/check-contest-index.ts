@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+
+import {
+  type ContestIndexLabels,
+  contestProblemStatus,
+  type ContestRow,
+  contestScore,
+  formatContestResult,
+  formatDuration,
+  formatProblemTable
+} from "../src/contest/contestIndex.ts";
+
+const contest = { startTime: 1_000_000, duration: 5400 };
+const accepted = (timestamp: number) => ({ id: String(timestamp), status: "Accepted", timestamp });
+const wrong = (timestamp: number) => ({ id: String(timestamp), status: "Wrong Answer", timestamp });
+
+assert.equal(contestProblemStatus([], contest), "none");
+assert.equal(contestProblemStatus([wrong(1_000_100)], contest), "tried");
+assert.equal(contestProblemStatus([wrong(1_000_100), accepted(1_000_200)], contest), "contest");
+assert.equal(contestProblemStatus([accepted(1_005_400)], contest), "contest");
+assert.equal(contestProblemStatus([accepted(1_005_401)], contest), "upsolved");
+assert.equal(contestProblemStatus([accepted(999_999)], contest), "upsolved");
+
+const labels: ContestIndexLabels = {
+  problem: "Problem",
+  points: "Points",
+  status: "Status",
+  statuses: { contest: "in contest", upsolved: "after", tried: "tried", none: "—" },
+  rank: "Rank",
+  score: "Score",
+  solved: "Solved",
+  finishTime: "Finish time",
+  notParticipated: "Did not take part."
+};
+
+const rows: ContestRow[] = [
+  { link: "[[weekly-contest-400/3168-a|Chairs]]", credit: 3, status: "contest" },
+  { link: "[[3169-b]]", credit: 4, status: "contest" },
+  { link: "Third", credit: 5, status: "upsolved" },
+  { link: "Fourth", credit: 6, status: "none" }
+];
+assert.equal(contestScore(rows), 7);
+assert.equal(
+  formatProblemTable(rows.slice(0, 2), labels),
+  [
+    "| # | Problem | Points | Status |",
+    "|---|---|---|---|",
+    "| 1 | [[weekly-contest-400/3168-a\\|Chairs]] | 3 | in contest |",
+    "| 2 | [[3169-b]] | 4 | in contest |"
+  ].join("\n")
+);
+
+const ranking = { ranking: 1234, problemsSolved: 2, totalProblems: 4, finishTimeInSeconds: 3909 };
+assert.equal(
+  formatContestResult(rows, ranking, labels),
+  "- Rank: 1234\n- Score: 7 / 18\n- Solved: 2 / 4\n- Finish time: 1:05:09"
+);
+assert.equal(formatContestResult(rows, null, labels), "- Score: 7 / 18\n- Solved: 2 / 4");
+const upsolvedOnly = rows.map((row) => ({ ...row, status: "upsolved" as const }));
+assert.equal(formatContestResult(upsolvedOnly, null, labels), "Did not take part.");
+
+assert.equal(formatDuration(59), "0:00:59");
+assert.equal(formatDuration(5400), "1:30:00");
+
+console.log("check-contest-index: ok");
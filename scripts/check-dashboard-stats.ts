@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+
+import { computeStats, parseSolutionEntries } from "../src/dashboard/stats.ts";
+
+const note = [
+  "---",
+  "title: Two Sum",
+  "---",
+  "## Description",
+  "```",
+  "Input: nums = [2,7]",
+  "```",
+  "",
+  "## Solutions",
+  "",
+  "Python3 · Runtime: 52 ms · Memory: 17 MB · 2024-02-10T12:00:00.000Z",
+  "",
+  "```python3",
+  "class Solution: ...",
+  "```",
+  "",
+  "```cpp",
+  "// no details line",
+  "```",
+  "",
+  "Rust · Runtime: 0 ms · 2024-03-01T08:00:00.000Z",
+  "",
+  "[[LeetCode/1-two-sum/rust-42.rs]]"
+].join("\n");
+
+const entries = parseSolutionEntries(note, ["Solutions", "Решения"]);
+assert.deepEqual(entries, [
+  { lang: "Python3", timestamp: Date.parse("2024-02-10T12:00:00Z") / 1000 },
+  { lang: "cpp" },
+  { lang: "Rust", timestamp: Date.parse("2024-03-01T08:00:00Z") / 1000 }
+]);
+assert.deepEqual(parseSolutionEntries("## Description\n```\nx\n```", ["Solutions"]), []);
+
+const stats = computeStats(
+  [
+    { difficulty: "Hard", tags: ["Graph"], solutions: [{ lang: "C++", timestamp: 1_700_000_000 }] },
+    {
+      difficulty: "Easy",
+      tags: ["Array", "Hash Table"],
+      solutions: [
+        { lang: "Python3", timestamp: 1_710_000_000 },
+        { lang: "Python3", timestamp: 1_700_000_000 }
+      ]
+    },
+    { difficulty: "Easy", tags: ["Array"], solutions: [] }
+  ],
+  2
+);
+
+assert.equal(stats.total, 3);
+assert.deepEqual(stats.byDifficulty, [
+  { key: "Easy", count: 2 },
+  { key: "Hard", count: 1 }
+]);
+assert.deepEqual(stats.byTag[0], { key: "Array", count: 2 });
+assert.deepEqual(stats.byLanguage, [
+  { key: "C++", count: 1 },
+  { key: "Python3", count: 1 }
+]);
+assert.deepEqual(stats.solvesByMonth, [{ key: "2023-11", count: 2 }]);
+assert.deepEqual(stats.weakestTags, [
+  { key: "Graph", count: 1 },
+  { key: "Hash Table", count: 1 }
+]);
+
+console.log("check-dashboard-stats: ok");
@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+
+import {
+  absoluteImageUrl,
+  extractImageUrls,
+  imageFileName,
+  replaceImageLinks
+} from "../src/images/descriptionImages.ts";
+
+const origin = "https://leetcode.com";
+const tree = "https://assets.leetcode.com/uploads/2020/10/03/tree1.jpg";
+
+assert.equal(absoluteImageUrl("//assets.leetcode.com/a.png", origin), "https://assets.leetcode.com/a.png");
+assert.equal(absoluteImageUrl("/static/a.png", origin), "https://leetcode.com/static/a.png");
+assert.equal(absoluteImageUrl("data:image/png;base64,AAAA", origin), null);
+
+const html = [
+  `<p><img alt="" src="${tree}" style="width: 300px;" /></p>`,
+  `<img src='//assets.leetcode.com/uploads/graph.png'>`,
+  `<img src="${tree}">`
+].join("\n");
+assert.deepEqual(extractImageUrls(html, origin), [
+  tree,
+  "https://assets.leetcode.com/uploads/graph.png"
+]);
+
+const name = imageFileName(tree);
+assert.match(name, /^tree1-[0-9a-f]{8}\.jpg$/);
+assert.equal(imageFileName(tree), name);
+assert.notEqual(imageFileName("https://assets.leetcode.com/uploads/2021/01/01/tree1.jpg"), name);
+assert.match(imageFileName("https://example.com/img?id=1"), /^img-[0-9a-f]{8}\.png$/);
+assert.match(imageFileName("https://example.com/My%20Graph.PNG"), /^My-Graph-[0-9a-f]{8}\.png$/);
+
+const links = new Map([[tree, `![[${name}]]`]]);
+assert.equal(
+  replaceImageLinks(`Before\n\n![](${tree})\n\n![other](https://x.com/y.png "t")`, links, origin),
+  `Before\n\n![[${name}]]\n\n![other](https://x.com/y.png "t")`
+);
+assert.equal(
+  replaceImageLinks(`<img src="//assets.leetcode.com/uploads/2020/10/03/tree1.jpg" width="200">`, links, origin),
+  `![[${name}]]`
+);
+assert.equal(replaceImageLinks(`![](${tree})`, new Map(), origin), `![](${tree})`);
+
+console.log("check-description-images: ok");
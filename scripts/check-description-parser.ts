@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+
+import { parseDescription, readableMath } from "../src/description/descriptionParser.ts";
+
+const twoSum = `<p>Given an array of integers <code>nums</code>&nbsp;and an integer <code>target</code>, return <em>indices of the two numbers such that they add up to <code>target</code></em>.</p>
+
+<p>&nbsp;</p>
+<p><strong class="example">Example 1:</strong></p>
+
+<pre>
+<strong>Input:</strong> nums = [2,7,11,15], target = 9
+<strong>Output:</strong> [0,1]
+<strong>Explanation:</strong> Because nums[0] + nums[1] == 9, we return [0, 1].
+</pre>
+
+<p><strong class="example">Example 2:</strong></p>
+<img alt="" src="https://assets.leetcode.com/uploads/two.jpg" style="width: 300px;" />
+<pre>
+<strong>Input:</strong> nums = [3,2,4], target = 6
+<strong>Output:</strong> [1,2]
+</pre>
+
+<p>&nbsp;</p>
+<p><strong>Constraints:</strong></p>
+
+<ul>
+	<li><code>2 &lt;= nums.length &lt;= 10<sup>4</sup></code></li>
+	<li><code>-10<sup>9</sup> &lt;= nums[i] &lt;= 10<sup>9</sup></code></li>
+	<li><strong>Only one valid answer exists.</strong></li>
+</ul>
+
+<p>&nbsp;</p>
+<strong>Follow-up:&nbsp;</strong>Can you come up with an algorithm that is less than <code>O(n<sup>2</sup>)</code><font face="monospace">&nbsp;</font>time complexity?`;
+
+const parsed = parseDescription(twoSum);
+assert.ok(parsed.statement.startsWith("<p>Given an array"));
+assert.ok(parsed.statement.endsWith("</p>"));
+assert.ok(!parsed.statement.includes("Example"));
+assert.equal(parsed.examples.length, 2);
+assert.deepEqual(parsed.examples[0], {
+  number: 1,
+  title: "Example 1",
+  input: "nums = [2,7,11,15], target = 9",
+  output: "[0,1]",
+  explanation: "Because nums[0] + nums[1] == 9, we return [0, 1].",
+  images: []
+});
+assert.deepEqual(parsed.examples[1]?.images, ["https://assets.leetcode.com/uploads/two.jpg"]);
+assert.equal(parsed.examples[1]?.explanation, "");
+assert.deepEqual(parsed.constraints, [
+  "`2 <= nums.length <= 10^4`",
+  "`-10^9 <= nums[i] <= 10^9`",
+  "**Only one valid answer exists.**"
+]);
+assert.equal(
+  parsed.followUp,
+  "Can you come up with an algorithm that is less than `O(n^2)` time complexity?"
+);
+assert.deepEqual(parsed.labels, {
+  input: "Input",
+  output: "Output",
+  explanation: "Explanation",
+  constraints: "Constraints",
+  followUp: "Follow-up"
+});
+
+// Newer layout: example blocks with spans, multi-paragraph explanation.
+const blocks = parseDescription(`<p>Statement.</p>
+<p><strong class="example">Example 1:</strong></p>
+<div class="example-block">
+<p><strong>Input:</strong> <span class="example-io">s = "abc"</span></p>
+<p><strong>Output:</strong> <span class="example-io">3</span></p>
+<p><strong>Explanation:</strong></p>
+<p>First line.</p>
+<p>Second line.</p>
+</div>
+<p><strong>Constraints:</strong></p>
+<ul><li><code>1 &lt;= s.length &lt;= 2 * 10<sup>5</sup></code></li></ul>`);
+assert.equal(blocks.statement, "<p>Statement.</p>");
+assert.equal(blocks.examples[0]?.input, 's = "abc"');
+assert.equal(blocks.examples[0]?.output, "3");
+assert.equal(blocks.examples[0]?.explanation, "First line.\nSecond line.");
+assert.deepEqual(blocks.constraints, ["`1 <= s.length <= 2 * 10^5`"]);
+assert.equal(blocks.followUp, "");
+
+// leetcode.cn
+const cn = parseDescription(`<p>题目。</p>
+<p><strong>示例 1：</strong></p>
+<pre><strong>输入：</strong>nums = [1]
+<strong>输出：</strong>1</pre>
+<p><strong>提示：</strong></p>
+<ul><li><code>1 &lt;= n</code></li></ul>
+<p><strong>进阶：</strong>你能做到吗？</p>`);
+assert.equal(cn.examples[0]?.title, "示例 1");
+assert.equal(cn.examples[0]?.input, "nums = [1]");
+assert.equal(cn.examples[0]?.output, "1");
+assert.deepEqual(cn.labels, {
+  input: "输入",
+  output: "输出",
+  explanation: "Explanation",
+  constraints: "提示",
+  followUp: "进阶"
+});
+assert.equal(cn.followUp, "你能做到吗？");
+
+// No markers: everything is statement.
+assert.deepEqual(parseDescription("<p>Only text.</p>").examples, []);
+assert.equal(parseDescription("<p>Only text.</p>").statement, "<p>Only text.</p>");
+
+assert.equal(readableMath("x<sub>i</sub> + 2<sup>n-1</sup>"), "x_i + 2^(n-1)");
+
+console.log("check-description-parser: ok");
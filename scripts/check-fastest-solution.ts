@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+
+import { formatPercentile, markFastestSolution } from "../src/solutions/fastestSolution.ts";
+
+assert.equal(formatPercentile(87.34567), "beats 87.3%");
+assert.equal(formatPercentile(100), "beats 100%");
+assert.equal(formatPercentile(undefined), "");
+
+const section = [
+  "## Solutions",
+  "",
+  "python3 · Runtime: 52 ms (beats 60.1%) · Memory: 17 MB · 2024-01-01T10:00:00.000Z · 🏆 Fastest",
+  "",
+  "```python3",
+  "# Runtime: 1 ms · inside a fence",
+  "```",
+  "",
+  "cpp · Runtime: 4 ms (beats 90%) · Memory: 9 MB · 2024-01-02T10:00:00.000Z",
+  "",
+  "```cpp",
+  "return 0;",
+  "```",
+  "",
+  "cpp · Runtime: 4 ms (beats 95.5%) · 2024-01-03T10:00:00.000Z",
+  "",
+  "```cpp",
+  "return 1;",
+  "```"
+].join("\n");
+
+const marked = markFastestSolution(section, "Fastest").split("\n");
+// The old mark moves; ties on runtime go to the higher percentile; fences are ignored.
+assert.equal(
+  marked[2],
+  "python3 · Runtime: 52 ms (beats 60.1%) · Memory: 17 MB · 2024-01-01T10:00:00.000Z"
+);
+assert.equal(marked[5], "# Runtime: 1 ms · inside a fence");
+assert.equal(marked[8], "cpp · Runtime: 4 ms (beats 90%) · Memory: 9 MB · 2024-01-02T10:00:00.000Z");
+assert.equal(marked[14], "cpp · Runtime: 4 ms (beats 95.5%) · 2024-01-03T10:00:00.000Z · 🏆 Fastest");
+
+// Marking is idempotent.
+assert.equal(
+  markFastestSolution(markFastestSolution(section, "Fastest"), "Fastest"),
+  markFastestSolution(section, "Fastest")
+);
+
+// A single solution has nothing to compare against.
+const single = "python3 · Runtime: 52 ms · 2024-01-01T10:00:00.000Z\n\n```python3\npass\n```";
+assert.equal(markFastestSolution(single, "Fastest"), single);
+
+console.log("check-fastest-solution: ok");
@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+
+import {
+  applySolutionProperties,
+  buildFrontmatter,
+  markDailyChallenge,
+  problemStatus,
+  type PropertyOptions
+} from "../src/frontmatter.ts";
+import type { QuestionMetadata } from "../src/leetcode.ts";
+
+const all: PropertyOptions = {
+  propertyId: true,
+  propertyAcceptanceRate: true,
+  propertyCreated: true,
+  propertySolved: true,
+  propertyStatus: true,
+  propertyLanguages: true,
+  propertyComplexity: true
+};
+
+const metadata: QuestionMetadata = {
+  site: "com",
+  id: "1",
+  number: "1",
+  title: 'Two Sum: "the classic" #1',
+  slug: "two-sum",
+  difficulty: "Easy",
+  tags: ["Array", "Hash Table, Map"],
+  similarQuestions: [],
+  acceptanceRate: 53.2,
+  status: "notac"
+};
+
+const minimal = buildFrontmatter(metadata, [], {}, "2024-03-01");
+assert.deepEqual(Object.keys(minimal), [
+  "title",
+  "number",
+  "difficulty",
+  "tags",
+  "link",
+  "next_review",
+  "review_interval",
+  "review_ease",
+  "review_count"
+]);
+assert.equal(minimal.title, 'Two Sum: "the classic" #1');
+assert.equal(minimal.number, 1);
+assert.deepEqual(minimal.tags, ["Array", "Hash Table, Map"]);
+assert.equal(minimal.link, "https://leetcode.com/problems/two-sum/");
+assert.equal(minimal.next_review, "2024-03-02");
+
+// Non-numeric problem numbers (leetcode.cn) stay strings.
+const cn = buildFrontmatter({ ...metadata, number: "LCP 01" }, [], {}, "2024-03-01");
+assert.equal(cn.number, "LCP 01");
+
+const solutions = [
+  { id: "2", code: "b", lang: "cpp", timestamp: Date.UTC(2024, 1, 20, 12) / 1000 },
+  { id: "1", code: "a", lang: "python3", timestamp: Date.UTC(2024, 1, 10, 12) / 1000 },
+  { id: "3", code: "c", lang: "python3" }
+];
+const full = buildFrontmatter(metadata, solutions, all, "2024-03-01");
+assert.equal(full.id, 1);
+assert.equal(full.acceptance_rate, 53.2);
+assert.equal(full.status, "solved");
+assert.equal(full.created, "2024-03-01");
+assert.equal(full.solved, "2024-02-10");
+assert.deepEqual(full.languages, ["cpp", "python3"]);
+
+assert.equal(buildFrontmatter(metadata, [], all, "2024-03-01").status, "attempted");
+assert.equal(problemStatus({ status: null }, []), "todo");
+assert.equal(problemStatus({ status: "ac" }, []), "solved");
+
+// Importing later keeps the earlier solved date and merges languages.
+const existing: Record<string, unknown> = {
+  status: "attempted",
+  solved: "2024-01-05",
+  languages: ["java"]
+};
+applySolutionProperties(existing, solutions, all);
+assert.deepEqual(existing, {
+  status: "solved",
+  solved: "2024-01-05",
+  languages: ["java", "cpp", "python3"]
+});
+
+// The best complexity wins, recomputed from the note's lines rather than kept as a minimum.
+const complexity: Record<string, unknown> = {};
+applySolutionProperties(
+  complexity,
+  [
+    { id: "5", code: "e", timeComplexity: "O(n^2)", spaceComplexity: "O(1)" },
+    { id: "6", code: "f", timeComplexity: "O(log n)", spaceComplexity: "O(1)" }
+  ],
+  { propertyComplexity: true }
+);
+assert.deepEqual(complexity, { time_complexity: "O(log n)", space_complexity: "O(1)" });
+// The O(log n) estimate was corrected in the note.
+applySolutionProperties(
+  complexity,
+  [{ id: "7", code: "g", timeComplexity: "O(n^2)", spaceComplexity: "O(1)" }],
+  { propertyComplexity: true },
+  [{ time: "O(n)", space: "O(n)" }, { time: "O(n^2)", space: "O(1)" }]
+);
+assert.deepEqual(complexity, { time_complexity: "O(n)", space_complexity: "O(n)" });
+
+const untouched: Record<string, unknown> = { title: "x" };
+applySolutionProperties(untouched, solutions, {});
+assert.deepEqual(untouched, { title: "x" });
+
+const daily: Record<string, unknown> = { title: "x" };
+markDailyChallenge(daily, "2024-03-01");
+assert.deepEqual(daily, { title: "x", daily: true, daily_date: "2024-03-01" });
+markDailyChallenge(daily, "2023-12-31");
+assert.equal(daily.daily_date, "2024-03-01");
+
+console.log("check-frontmatter: ok");
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+
+import {
+  buildHarness,
+  codeBlockAtLine,
+  codeBlocks,
+  parseHarnessOutput,
+  reportCases,
+  RESULT_MARKER,
+  runnableLanguage
+} from "../src/runner/harness.ts";
+import type { ProblemSignature } from "../src/runner/testCases.ts";
+
+assert.equal(runnableLanguage("python3"), "python");
+assert.equal(runnableLanguage("JS"), "javascript");
+assert.equal(runnableLanguage("ts"), "typescript");
+assert.equal(runnableLanguage("cpp"), null);
+
+const note = [
+  "## Solutions",
+  "",
+  "```python3",
+  "class Solution:",
+  "    pass",
+  "```",
+  "",
+  "~~~cpp",
+  "int x;",
+  "~~~"
+].join("\n");
+assert.deepEqual(
+  codeBlocks(note).map((block) => [block.lang, block.startLine, block.endLine]),
+  [
+    ["python3", 2, 5],
+    ["cpp", 7, 9]
+  ]
+);
+assert.equal(codeBlockAtLine(note, 3)?.code, "class Solution:\n    pass");
+assert.equal(codeBlockAtLine(note, 6), null);
+
+const signature: ProblemSignature = {
+  name: "twoSum",
+  params: [
+    { name: "nums", type: "integer[]" },
+    { name: "target", type: "integer" }
+  ],
+  returnType: "integer[]"
+};
+const python = buildHarness("python", "class Solution:\n    pass\n", signature, [[[2, 7], 9]]);
+assert.ok(python.startsWith("from typing import *"));
+assert.ok(python.includes("Solution().twoSum(*_args)"));
+assert.ok(python.includes(JSON.stringify(JSON.stringify([[[2, 7], 9]]))));
+
+const inPlace = { ...signature, returnType: "void", outputParam: 0 };
+const javascript = buildHarness("javascript", "var twoSum = () => {};", inPlace, []);
+assert.ok(javascript.includes("twoSum(...args);\n      value = args[0];"));
+assert.ok(javascript.includes(JSON.stringify(RESULT_MARKER)));
+
+const outcomes = parseHarnessOutput(
+  [
+    "debug print",
+    `${RESULT_MARKER}{"ok":true,"value":[0,1],"ms":0.5}`,
+    `${RESULT_MARKER}{"ok":false,"error":"IndexError: list index out of range"}`,
+    `${RESULT_MARKER}{"ok":true,"value":[1,0]}`
+  ].join("\n")
+);
+assert.equal(outcomes.length, 3);
+
+const cases = [
+  { input: ["[2,7]", "9"], args: [], expected: "[0,1]" },
+  { input: ["[3,2,4]", "6"], args: [], expected: "[1,2]" },
+  { input: ["[3,3]", "6"], args: [], expected: "[0,1]" },
+  { input: ["[1,2]", "3"], args: [] }
+];
+assert.deepEqual(
+  reportCases(cases, outcomes, signature).map((report) => report.status),
+  ["pass", "error", "fail", "notRun"]
+);
+assert.equal(reportCases(cases.slice(3), [{ ok: true, value: [0, 1] }], signature)[0]?.status, "unchecked");
+
+console.log("check-harness: ok");
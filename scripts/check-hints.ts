@@ -0,0 +1,20 @@
+import assert from "node:assert/strict";
+
+import { formatHintCallouts } from "../src/description/hints.ts";
+
+assert.equal(formatHintCallouts([], "Hint"), "");
+assert.equal(
+  formatHintCallouts(["Use a hash map.", "Store `target - x`.\n\nThen look it up. "], "Hint"),
+  [
+    "> [!hint]- Hint 1",
+    "> Use a hash map.",
+    "",
+    "> [!hint]- Hint 2",
+    "> Store `target - x`.",
+    ">",
+    "> Then look it up."
+  ].join("\n")
+);
+assert.equal(formatHintCallouts(["x"], "Подсказка"), "> [!hint]- Подсказка 1\n> x");
+
+console.log("check-hints: ok");
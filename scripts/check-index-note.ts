@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+
+import {
+  formatIndexNote,
+  type IndexSection,
+  indexFileName,
+  refreshIndexSections
+} from "../src/indexNotes/indexNote.ts";
+
+assert.equal(indexFileName({ title: "Weekly Contest 400", slug: "weekly-contest-400" }), "Weekly Contest 400");
+assert.equal(indexFileName({ title: "Contest: #1 / ?", slug: "c-1" }), "Contest 1");
+assert.equal(indexFileName({ title: "???", slug: "c-1" }), "c-1");
+
+const sections: IndexSection[] = [
+  { header: "Problems", headers: ["Problems", "Задачи"], body: "| table |" },
+  { header: "My result", headers: ["My result", "Мой результат"], body: "- Rank: 1" }
+];
+assert.equal(
+  formatIndexNote("Weekly Contest 400", sections),
+  "# Weekly Contest 400\n\n## Problems\n| table |\n\n## My result\n- Rank: 1\n"
+);
+
+// Sections written in another language are replaced in place; user text is kept.
+const russian = "# Weekly Contest 400\n\n## Задачи\nold\n\n## Мои заметки\nkeep\n";
+assert.equal(
+  refreshIndexSections(russian, sections),
+  [
+    "# Weekly Contest 400",
+    "",
+    "## Задачи",
+    "| table |",
+    "",
+    "## Мои заметки",
+    "keep",
+    "",
+    "## My result",
+    "- Rank: 1",
+    ""
+  ].join("\n")
+);
+
+console.log("check-index-note: ok");
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+
+import {
+  formatLanguageSubsections,
+  groupByLanguage,
+  insertIntoLanguageSubsections
+} from "../src/solutions/languageGroups.ts";
+
+const block = (lang: string, text: string) => ({ lang, text });
+
+// Preferred languages first, in their order; the rest by first appearance.
+assert.deepEqual(
+  groupByLanguage(
+    [block("java", "j1"), block("python3", "p1"), block("rust", "r1"), block("cpp", "c1")],
+    ["cpp", "Python3"]
+  ).map((group) => group.lang),
+  ["cpp", "python3", "java", "rust"]
+);
+
+assert.equal(
+  formatLanguageSubsections([block("python3", "p1"), block("cpp", "c1"), block("python3", "p2")]),
+  "### python3\n\np1\n\np2\n\n### cpp\n\nc1"
+);
+
+const section = [
+  "## Solutions",
+  "",
+  "### python3",
+  "",
+  "```python3",
+  "### not a heading",
+  "```",
+  "",
+  "### java",
+  "",
+  "j1",
+  ""
+].join("\n");
+
+// New solutions join their subsection instead of the end of the note.
+assert.equal(
+  insertIntoLanguageSubsections(section, [block("Python3", "p2")]),
+  [
+    "## Solutions",
+    "",
+    "### python3",
+    "",
+    "```python3",
+    "### not a heading",
+    "```",
+    "",
+    "p2",
+    "",
+    "### java",
+    "",
+    "j1"
+  ].join("\n")
+);
+
+// A missing preferred language is placed before less preferred subsections.
+assert.ok(
+  insertIntoLanguageSubsections(section, [block("cpp", "c1")], ["python3", "cpp"]).includes(
+    "```\n\n### cpp\n\nc1\n\n### java"
+  )
+);
+
+// Other missing languages go to the end.
+assert.ok(insertIntoLanguageSubsections(section, [block("go", "g1")]).endsWith("j1\n\n### go\n\ng1"));
+
+// Ungrouped sections keep their content and gain subsections after it.
+assert.equal(
+  insertIntoLanguageSubsections("## Solutions\n\nold", [block("go", "g1")]),
+  "## Solutions\n\nold\n\n### go\n\ng1"
+);
+
+console.log("check-language-groups: ok");
@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+
+import {
+  diffFields,
+  diffHunks,
+  diffLines,
+  hasSection,
+  insertSection,
+  replaceSection
+} from "../src/update/noteSections.ts";
+
+const note = [
+  "---",
+  "title: Two Sum",
+  "---",
+  "# Two Sum",
+  "",
+  "## Description",
+  "Old statement",
+  "```",
+  "## not a heading",
+  "```",
+  "",
+  "## My idea",
+  "hash map",
+  "",
+  "## Solutions",
+  "",
+  "```python",
+  "pass",
+  "```",
+  ""
+].join("\n");
+
+const updated = replaceSection(note, ["Описание", "description"], "New statement\n");
+assert.ok(updated);
+assert.equal(
+  updated.split("## My idea")[0],
+  "---\ntitle: Two Sum\n---\n# Two Sum\n\n## Description\nNew statement\n\n"
+);
+assert.ok(updated.includes("## My idea\nhash map\n"));
+assert.equal(replaceSection(note, ["Similar questions"], "x"), null);
+
+// Last section keeps the trailing newline.
+const tail = replaceSection(note, ["Solutions"], "none");
+assert.ok(tail?.endsWith("## Solutions\nnone\n"));
+
+assert.ok(hasSection(note, ["my idea"]));
+assert.ok(!hasSection(note, ["not a heading"]));
+
+const inserted = insertSection(note, "Similar questions", "- 3Sum", ["Solutions"]);
+assert.ok(inserted.includes("hash map\n\n## Similar questions\n- 3Sum\n\n## Solutions"));
+const appended = insertSection("# Title\n", "Similar questions", "- 3Sum", ["Solutions"]);
+assert.equal(appended, "# Title\n\n## Similar questions\n- 3Sum\n");
+
+const diff = diffLines("a\nb\nc\nd", "a\nB\nc\nd\ne");
+assert.deepEqual(diff, [
+  { kind: "same", text: "a" },
+  { kind: "removed", text: "b" },
+  { kind: "added", text: "B" },
+  { kind: "same", text: "c" },
+  { kind: "same", text: "d" },
+  { kind: "added", text: "e" }
+]);
+assert.deepEqual(diffLines("x\ny", "x\ny"), [
+  { kind: "same", text: "x" },
+  { kind: "same", text: "y" }
+]);
+
+const long = Array.from({ length: 20 }, (_, i) => `line ${i}`);
+const changed = [...long];
+changed[2] = "changed 2";
+changed[15] = "changed 15";
+const hunks = diffHunks(diffLines(long.join("\n"), changed.join("\n")), 1);
+assert.equal(hunks.length, 2);
+assert.deepEqual(
+  hunks[0]?.map((line) => line.text),
+  ["line 1", "line 2", "changed 2", "line 3"]
+);
+
+assert.deepEqual(
+  diffFields(
+    { title: "Two Sum", difficulty: "Easy", tags: ["Array", "Hash Table"] },
+    { title: "Two Sum", difficulty: "Medium", tags: ["Array", "Hash Table"] }
+  ),
+  [{ key: "difficulty", before: "Easy", after: "Medium" }]
+);
+assert.deepEqual(diffFields(undefined, { tags: ["Array"] }), [
+  { key: "tags", before: "", after: "Array" }
+]);
+
+console.log("check-note-sections: ok");
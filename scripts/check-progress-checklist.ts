@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+
+import {
+  type ChecklistGroup,
+  countSolved,
+  formatProgress,
+  type ListIndexLabels,
+  listTitleFromSlug
+} from "../src/lists/progressChecklist.ts";
+
+const labels: ListIndexLabels = {
+  solved: (solved, total) => `Solved ${solved} / ${total}`
+};
+
+const plan: ChecklistGroup[] = [
+  {
+    name: "Array / String",
+    items: [
+      { link: "[[88-merge-sorted-array|Merge Sorted Array]]", difficulty: "Easy", solved: true },
+      { link: "[[27-remove-element|Remove Element]]", difficulty: "Easy", solved: false }
+    ]
+  },
+  { name: "Empty", items: [] },
+  {
+    name: "Two Pointers",
+    items: [{ link: "Is Subsequence", difficulty: "Unknown", solved: false }]
+  }
+];
+
+assert.deepEqual(countSolved(plan), { solved: 1, total: 3 });
+assert.equal(
+  formatProgress(plan, labels),
+  [
+    "Solved 1 / 3",
+    "",
+    "### Array / String",
+    "- [x] [[88-merge-sorted-array|Merge Sorted Array]] (Easy)",
+    "- [ ] [[27-remove-element|Remove Element]] (Easy)",
+    "",
+    "### Two Pointers",
+    "- [ ] Is Subsequence"
+  ].join("\n")
+);
+
+const list: ChecklistGroup[] = [
+  { name: "", items: [{ link: "[[1-two-sum]]", difficulty: "Easy", solved: true }] }
+];
+assert.equal(formatProgress(list, labels), "Solved 1 / 1\n\n- [x] [[1-two-sum]] (Easy)");
+assert.equal(formatProgress([], labels), "Solved 0 / 0");
+
+assert.equal(listTitleFromSlug("top-sql-50"), "Top sql 50");
+assert.equal(listTitleFromSlug("xi4ci4ig"), "Xi4ci4ig");
+
+console.log("check-progress-checklist: ok");
@@ -0,0 +1,30 @@
+import assert from "node:assert/strict";
+
+import {
+  DEFAULT_RETRY_OPTIONS,
+  isRetryableStatus,
+  parseRetryAfter,
+  retryDelay
+} from "../src/retryPolicy.ts";
+
+assert.equal(isRetryableStatus(429), true);
+assert.equal(isRetryableStatus(503), true);
+assert.equal(isRetryableStatus(403), false);
+assert.equal(isRetryableStatus(200), false);
+
+assert.equal(parseRetryAfter("120"), 120_000);
+assert.equal(parseRetryAfter(""), null);
+assert.equal(parseRetryAfter("soon"), null);
+const now = Date.parse("2024-01-01T00:00:00Z");
+assert.equal(parseRetryAfter("Mon, 01 Jan 2024 00:00:10 GMT", now), 10_000);
+assert.equal(parseRetryAfter("Sun, 31 Dec 2023 23:59:00 GMT", now), 0);
+
+const noJitter = () => 1;
+assert.equal(retryDelay(0, DEFAULT_RETRY_OPTIONS, null, noJitter), 1000);
+assert.equal(retryDelay(2, DEFAULT_RETRY_OPTIONS, null, noJitter), 4000);
+assert.equal(retryDelay(10, DEFAULT_RETRY_OPTIONS, null, noJitter), 30_000);
+assert.equal(retryDelay(0, DEFAULT_RETRY_OPTIONS, null, () => 0), 500);
+assert.equal(retryDelay(0, DEFAULT_RETRY_OPTIONS, 5000), 5000);
+assert.equal(retryDelay(0, DEFAULT_RETRY_OPTIONS, 120_000), 30_000);
+
+console.log("check-retry-policy: ok");
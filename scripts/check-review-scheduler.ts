@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+
+import {
+  addDays,
+  initialReviewState,
+  isDue,
+  readReviewState,
+  scheduleReview
+} from "../src/review/scheduler.ts";
+
+const today = "2024-03-30";
+assert.equal(addDays(today, 3), "2024-04-02");
+assert.equal(addDays("2024-12-31", 1), "2025-01-01");
+
+const fresh = initialReviewState(today);
+assert.deepEqual(fresh, { nextReview: "2024-03-31", interval: 0, ease: 2.5, count: 0 });
+assert.equal(isDue(fresh, today), false);
+assert.equal(isDue(fresh, "2024-03-31"), true);
+
+const first = scheduleReview(fresh, "good", "2024-03-31");
+assert.deepEqual(first, { nextReview: "2024-04-01", interval: 1, ease: 2.5, count: 1 });
+const second = scheduleReview(first, "good", "2024-04-01");
+assert.equal(second.interval, 6);
+const third = scheduleReview(second, "good", "2024-04-07");
+assert.equal(third.interval, 15);
+assert.equal(third.nextReview, "2024-04-22");
+
+const lapse = scheduleReview(third, "again", "2024-04-22");
+assert.equal(lapse.interval, 0);
+assert.equal(lapse.nextReview, "2024-04-23");
+assert.equal(lapse.ease, 2.3);
+assert.equal(lapse.count, 4);
+
+const easy = scheduleReview(second, "easy", today);
+assert.equal(easy.ease, 2.65);
+assert.equal(easy.interval, 21);
+
+let worst = fresh;
+for (let i = 0; i < 10; i += 1) worst = scheduleReview(worst, "again", today);
+assert.equal(worst.ease, 1.3);
+
+assert.deepEqual(
+  readReviewState({ next_review: "2024-05-01", review_interval: 6, review_ease: "2.4" }),
+  { nextReview: "2024-05-01", interval: 6, ease: 2.4, count: 0 }
+);
+assert.equal(readReviewState({ title: "Two Sum" }), null);
+
+console.log("check-review-scheduler: ok");
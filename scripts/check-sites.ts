@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+
+import {
+  contestUrl,
+  extractContestSlug,
+  extractSlug,
+  listUrl,
+  parseListLink,
+  parseProblemLink,
+  problemUrl,
+  submissionUrl
+} from "../src/sites.ts";
+
+assert.deepEqual(parseProblemLink("https://leetcode.com/problems/two-sum/"), {
+  site: "com",
+  slug: "two-sum"
+});
+assert.deepEqual(parseProblemLink("https://leetcode.cn/problems/two-sum/description/"), {
+  site: "cn",
+  slug: "two-sum"
+});
+assert.deepEqual(parseProblemLink("https://leetcode-cn.com/problems/add-two-numbers/"), {
+  site: "cn",
+  slug: "add-two-numbers"
+});
+assert.equal(extractSlug("link: https://www.leetcode.com/problems/3sum/"), "3sum");
+assert.equal(extractSlug("https://notleetcode.com/problems/two-sum/"), null);
+assert.equal(extractSlug("42"), null);
+
+assert.equal(problemUrl("cn", "two-sum"), "https://leetcode.cn/problems/two-sum/");
+assert.equal(problemUrl(undefined, "two-sum"), "https://leetcode.com/problems/two-sum/");
+assert.equal(submissionUrl("cn", "42"), "https://leetcode.cn/submissions/detail/42/");
+assert.equal(contestUrl("com", "weekly-contest-400"), "https://leetcode.com/contest/weekly-contest-400/");
+
+assert.equal(extractContestSlug("https://leetcode.com/contest/weekly-contest-400/"), "weekly-contest-400");
+assert.equal(
+  extractContestSlug("https://leetcode.cn/contest/biweekly-contest-130/problems/two-sum/"),
+  "biweekly-contest-130"
+);
+assert.equal(extractContestSlug(" weekly-contest-400 "), "weekly-contest-400");
+assert.equal(extractContestSlug("Weekly Contest 400"), "weekly-contest-400");
+assert.equal(extractContestSlug("two-sum"), null);
+assert.equal(extractContestSlug("https://leetcode.com/problems/two-sum/"), null);
+
+assert.deepEqual(parseListLink("https://leetcode.com/studyplan/top-interview-150/"), {
+  kind: "studyPlan",
+  slug: "top-interview-150"
+});
+assert.deepEqual(parseListLink("https://leetcode.com/problem-list/wpwgkgt/"), {
+  kind: "list",
+  slug: "wpwgkgt"
+});
+assert.deepEqual(parseListLink("leetcode.cn/list/2ckc81c"), { kind: "list", slug: "2ckc81c" });
+assert.equal(parseListLink("https://leetcode.com/problems/two-sum/"), null);
+assert.equal(
+  listUrl("cn", { kind: "studyPlan", slug: "leetcode-75" }),
+  "https://leetcode.cn/studyplan/leetcode-75/"
+);
+
+console.log("check-sites: ok");
@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+
+import {
+  extensionForLanguage,
+  solutionFileName,
+  solutionFolderPath,
+  solutionLinkExtension
+} from "../src/solutions/solutionFiles.ts";
+
+assert.equal(extensionForLanguage("python3"), "py");
+assert.equal(extensionForLanguage("Python3"), "py");
+assert.equal(extensionForLanguage("cpp"), "cpp");
+assert.equal(extensionForLanguage("rust"), "rs");
+assert.equal(extensionForLanguage("golang"), "go");
+assert.equal(extensionForLanguage("mysql"), "sql");
+assert.equal(extensionForLanguage("brainfuck"), "txt");
+assert.equal(extensionForLanguage(undefined), "txt");
+
+assert.equal(solutionFileName({ id: "1234567", lang: "python3" }), "python3-1234567.py");
+assert.equal(solutionFileName({ id: "9", lang: "C#" }), "c-9.txt");
+assert.equal(solutionFileName({ id: "9", lang: "csharp" }), "csharp-9.cs");
+assert.equal(solutionFileName({ id: "../x", lang: undefined }), "solution-x.txt");
+
+assert.equal(solutionFolderPath("LeetCode/1-two-sum.md"), "LeetCode/1-two-sum");
+assert.equal(solutionFolderPath("two-sum.md"), "two-sum");
+
+assert.equal(solutionLinkExtension("[[LeetCode/1-two-sum/python3-1.py]]"), "py");
+assert.equal(solutionLinkExtension("[[1-two-sum/rust-2.rs|rust-2.rs]]"), "rs");
+assert.equal(solutionLinkExtension("[cpp-3.cpp](<LeetCode/1 two sum/cpp-3.cpp>)"), "cpp");
+assert.equal(solutionLinkExtension("[[Other note]]"), null);
+assert.equal(solutionLinkExtension("![[diagram.png]]"), null);
+assert.equal(solutionLinkExtension("Python3 · Runtime: 52 ms"), null);
+
+console.log("check-solution-files: ok");
@@ -0,0 +1,22 @@
+import assert from "node:assert/strict";
+
+import { formatStarterCode, pickSnippets } from "../src/solutions/starterCode.ts";
+
+const snippets = [
+  { lang: "C++", langSlug: "cpp", code: "class Solution {\npublic:\n};" },
+  { lang: "Python3", langSlug: "python3", code: "class Solution:\n    def twoSum(self):\n        \n" },
+  { lang: "Java", langSlug: "java", code: "class Solution {}" }
+];
+
+assert.deepEqual(
+  pickSnippets(snippets, ["python3", "C++", "rust", "cpp"]).map((snippet) => snippet.langSlug),
+  ["python3", "cpp"]
+);
+assert.deepEqual(pickSnippets(snippets, []), []);
+assert.equal(
+  formatStarterCode(snippets, ["Python 3", "java"]),
+  "```python3\nclass Solution:\n    def twoSum(self):\n        \n```\n\n```java\nclass Solution {}\n```"
+);
+assert.equal(formatStarterCode([], ["python3"]), "");
+
+console.log("check-starter-code: ok");
@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+
+import {
+  invalidFilterDates,
+  isBeforeFilterRange,
+  matchesSubmissionFilter,
+  parseLanguageList
+} from "../src/solutions/submissionFilter.ts";
+
+assert.deepEqual(parseLanguageList(" Python3, cpp;java  "), ["python3", "cpp", "java"]);
+assert.deepEqual(parseLanguageList(""), []);
+
+// Local time, so the check does not depend on the machine's time zone.
+const at = (year: number, month: number, day: number, hour = 12) =>
+  new Date(year, month - 1, day, hour).getTime() / 1000;
+
+const python = { lang: "python3", timestamp: at(2024, 3, 15) };
+const cpp = { lang: "cpp", timestamp: at(2024, 3, 15) };
+
+assert.ok(matchesSubmissionFilter(python, {}));
+assert.ok(matchesSubmissionFilter(python, { languages: ["Python3"] }));
+assert.ok(!matchesSubmissionFilter(cpp, { languages: ["python3"] }));
+
+// Both ends of the date range are inclusive whole days.
+assert.ok(matchesSubmissionFilter(python, { since: "2024-03-15", until: "2024-03-15" }));
+assert.ok(matchesSubmissionFilter({ timestamp: at(2024, 3, 15, 23) }, { until: "2024-03-15" }));
+assert.ok(!matchesSubmissionFilter({ timestamp: at(2024, 3, 16, 0) }, { until: "2024-03-15" }));
+assert.ok(!matchesSubmissionFilter(python, { since: "2024-03-16" }));
+assert.ok(!matchesSubmissionFilter({ lang: "python3" }, { since: "2024-03-16" }));
+
+// Malformed dates leave the range open.
+assert.ok(matchesSubmissionFilter(python, { since: "15.03.2024", until: "2024-02-30" }));
+assert.deepEqual(invalidFilterDates({ since: "15.03.2024", until: "2024-02-30" }), [
+  "15.03.2024",
+  "2024-02-30"
+]);
+assert.deepEqual(invalidFilterDates({ since: " ", until: "2024-02-29" }), []);
+
+assert.ok(isBeforeFilterRange(python, { since: "2024-03-16" }));
+assert.ok(!isBeforeFilterRange(python, { since: "2024-03-15" }));
+assert.ok(!isBeforeFilterRange(python, { until: "2024-03-01" }));
+assert.ok(!isBeforeFilterRange({ lang: "cpp" }, { since: "2024-03-16" }));
+
+console.log("check-submission-filter: ok");
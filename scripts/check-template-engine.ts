@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+
+import { renderTemplate, TemplateSyntaxError } from "../src/templateEngine.ts";
+
+const context = {
+  title: "Two Sum",
+  difficulty: "Easy",
+  tags: ["Array", "Hash Table"],
+  description: "",
+  similar: [
+    { title: "3Sum", slug: "3sum" },
+    { title: "4Sum", slug: "4sum" }
+  ],
+  meta: { number: "1" }
+};
+
+assert.equal(renderTemplate("# {{title}} ({{ difficulty }})", context), "# Two Sum (Easy)");
+assert.equal(renderTemplate("tags: [{{tags}}]", context), "tags: [Array, Hash Table]");
+assert.equal(renderTemplate("{{meta.number}}{{missing}}", context), "1");
+
+assert.equal(
+  renderTemplate("{{#if description}}has{{else}}none{{/if}}", context),
+  "none"
+);
+assert.equal(renderTemplate("{{#unless description}}empty{{/unless}}", context), "empty");
+
+assert.equal(
+  renderTemplate("{{#each similar}}{{@number}}. {{title}} / {{@index}}\n{{/each}}", context),
+  "1. 3Sum / 0\n2. 4Sum / 1\n"
+);
+assert.equal(
+  renderTemplate("## Similar\n{{#each similar}}\n- {{title}} ({{slug}})\n{{/each}}\nend", context),
+  "## Similar\n- 3Sum (3sum)\n- 4Sum (4sum)\nend"
+);
+assert.equal(
+  renderTemplate("{{#each tags}}[{{this}}]{{else}}no tags{{/each}}", context),
+  "[Array][Hash Table]"
+);
+assert.equal(renderTemplate("{{#each nothing}}x{{else}}no items{{/each}}", context), "no items");
+assert.equal(
+  renderTemplate("{{#each similar}}{{#if slug}}{{difficulty}}{{/if}}{{/each}}", context),
+  "EasyEasy"
+);
+
+assert.throws(() => renderTemplate("{{#if title}}open", context), TemplateSyntaxError);
+assert.throws(() => renderTemplate("{{/each}}", context), TemplateSyntaxError);
+assert.throws(() => renderTemplate("{{#if title}}x{{/each}}", context), TemplateSyntaxError);
+
+console.log("check-template-engine: ok");
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+
+import {
+  buildTestCases,
+  matchesExpected,
+  parseExampleOutputs,
+  parseSignature
+} from "../src/runner/testCases.ts";
+
+const twoSum = parseSignature(
+  JSON.stringify({
+    name: "twoSum",
+    params: [
+      { name: "nums", type: "integer[]" },
+      { name: "target", type: "integer" }
+    ],
+    return: { type: "integer[]", size: 2 }
+  })
+);
+assert.equal(twoSum.kind, "ok");
+if (twoSum.kind !== "ok") throw new Error("unreachable");
+assert.equal(twoSum.signature.name, "twoSum");
+assert.equal(twoSum.signature.outputParam, undefined);
+
+const rotate = parseSignature(
+  JSON.stringify({
+    name: "rotate",
+    params: [{ name: "matrix", type: "integer[][]" }],
+    return: { type: "void" },
+    output: { paramindex: 0 }
+  })
+);
+assert.equal(rotate.kind === "ok" && rotate.signature.outputParam, 0);
+
+assert.equal(parseSignature(JSON.stringify({ classname: "LRUCache", constructor: {} })).kind, "design");
+assert.equal(
+  parseSignature(
+    JSON.stringify({
+      name: "reverseList",
+      params: [{ name: "head", type: "ListNode" }],
+      return: { type: "ListNode" }
+    })
+  ).kind,
+  "unsupported"
+);
+assert.equal(parseSignature(undefined).kind, "missing");
+assert.equal(parseSignature("not json").kind, "missing");
+
+const html = [
+  "<p><strong>Example 1:</strong></p>",
+  "<pre><strong>Input:</strong> nums = [2,7,11,15], target = 9",
+  "<strong>Output:</strong> [0,1]",
+  "<strong>Explanation:</strong> Because nums[0] + nums[1] == 9, we return [0, 1].</pre>",
+  '<div class="example-block"><p><strong>Input:</strong> <span>nums = [3,2,4]</span></p>',
+  '<p><strong>Output:</strong> <span class="example-io">[1,2]</span></p></div>',
+  "<pre><strong>输出：</strong>&quot;a&lt;b&quot;</pre>"
+].join("\n");
+assert.deepEqual(parseExampleOutputs(html), ["[0,1]", "[1,2]", '"a<b"']);
+
+const cases = buildTestCases("[2,7,11,15]\n9\n[3,2,4]\n6\n[3,3]\n6\n", twoSum.signature, [
+  "[0,1]",
+  "[1,2]"
+]);
+assert.equal(cases.length, 3);
+assert.deepEqual(cases[0], { input: ["[2,7,11,15]", "9"], args: [[2, 7, 11, 15], 9], expected: "[0,1]" });
+assert.equal(cases[2]?.expected, undefined);
+
+assert.ok(matchesExpected([0, 1], "[0,1]", "integer[]"));
+assert.ok(!matchesExpected([1, 0], "[0,1]", "integer[]"));
+assert.ok(matchesExpected(2.500001, "2.50000", "double"));
+assert.ok(!matchesExpected(2.5001, "2.50000", "double"));
+assert.ok(!matchesExpected(2.000001, "2", "integer"));
+assert.ok(matchesExpected(true, "true", "boolean"));
+assert.ok(matchesExpected("bab", '"bab"', "string"));
+
+console.log("check-test-cases: ok");
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+
+import { formatVerdict, leetcodeLang, placeVerdict } from "../src/submit/verdict.ts";
+
+assert.equal(leetcodeLang("python"), "python3");
+assert.equal(leetcodeLang("Py"), "python3");
+assert.equal(leetcodeLang("c++"), "cpp");
+assert.equal(leetcodeLang("go"), "golang");
+assert.equal(leetcodeLang("C#"), "csharp");
+assert.equal(leetcodeLang("mermaid"), null);
+
+const labels = {
+  input: "Input",
+  expected: "Expected",
+  output: "Output",
+  error: "Error",
+  testcases: "test cases passed"
+};
+const url = "https://leetcode.com/submissions/detail/42/";
+const timestamp = new Date(2024, 0, 2, 9, 5).getTime() / 1000;
+
+const accepted = formatVerdict(
+  {
+    submissionId: "42",
+    status: "Accepted",
+    accepted: true,
+    runtime: "52 ms",
+    memory: "17.1 MB",
+    runtimePercentile: 87.34
+  },
+  labels,
+  url,
+  timestamp
+);
+assert.equal(
+  accepted,
+  `> [!success] Accepted · 52 ms (beats 87.3%) · 17.1 MB · 2024-01-02 09:05 · [#42](${url})`
+);
+
+const wrong = formatVerdict(
+  {
+    submissionId: "42",
+    status: "Wrong Answer",
+    accepted: false,
+    totalCorrect: 45,
+    totalTestcases: 63,
+    testcase: { input: "[2,7]\n9", expected: "[0,1]", output: "[1,0]" }
+  },
+  labels,
+  url,
+  timestamp
+);
+assert.equal(
+  wrong,
+  [
+    `> [!failure] Wrong Answer · 45 / 63 test cases passed · 2024-01-02 09:05 · [#42](${url})`,
+    "> Input:",
+    "> ```",
+    "> [2,7]",
+    "> 9",
+    "> ```",
+    "> Expected:",
+    "> ```",
+    "> [0,1]",
+    "> ```",
+    "> Output:",
+    "> ```",
+    "> [1,0]",
+    "> ```"
+  ].join("\n")
+);
+
+const note = ["## Solutions", "", "```python", "pass", "```", "## Next"].join("\n");
+const once = placeVerdict(note, 4, wrong);
+assert.equal(once, ["## Solutions", "", "```python", "pass", "```", "", wrong, "", "## Next"].join("\n"));
+// Resubmitting replaces the previous verdict instead of stacking another one.
+assert.equal(
+  placeVerdict(once, 4, accepted),
+  ["## Solutions", "", "```python", "pass", "```", "", accepted, "", "## Next"].join("\n")
+);
+// A user's own callout under the block is kept.
+const own = ["```python", "pass", "```", "", "> [!note] idea", "## Next"].join("\n");
+assert.equal(
+  placeVerdict(own, 2, accepted),
+  ["```python", "pass", "```", "", accepted, "", "> [!note] idea", "## Next"].join("\n")
+);
+
+console.log("check-verdict: ok");
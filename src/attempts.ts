@@ -0,0 +1,100 @@
+/** Attempts section formatting — no Obsidian imports (agent-runnable checks). */
+
+import type { SubmissionAttempt } from "./leetcode";
+import { formatLocalDate } from "./review/scheduler";
+
+export type AttemptLabels = {
+  date: string;
+  status: string;
+  language: string;
+  runtime: string;
+  memory: string;
+  input: string;
+  expected: string;
+  output: string;
+  error: string;
+};
+
+/**
+ * Body of the Attempts section: a table of every submission, oldest first, followed
+ * (with `details`) by a collapsed callout per failed attempt with its test case and code.
+ */
+export function formatAttempts(
+  attempts: SubmissionAttempt[],
+  labels: AttemptLabels,
+  details = false
+): string {
+  if (attempts.length === 0) return "";
+
+  const rows = attempts.map((attempt) =>
+    tableRow([
+      formatTime(attempt.timestamp),
+      attempt.status,
+      attempt.lang ?? "",
+      attempt.runtime ?? "",
+      attempt.memory ?? ""
+    ])
+  );
+  const table = [
+    tableRow([labels.date, labels.status, labels.language, labels.runtime, labels.memory]),
+    tableRow(["---", "---", "---", "---", "---"]),
+    ...rows
+  ].join("\n");
+  if (!details) return table;
+
+  const callouts = attempts
+    .filter((attempt) => attempt.code || attempt.testcase)
+    .map((attempt) => formatFailure(attempt, labels));
+  return [table, ...callouts].join("\n\n");
+}
+
+function formatFailure(attempt: SubmissionAttempt, labels: AttemptLabels): string {
+  const title = [formatTime(attempt.timestamp), attempt.status, attempt.lang]
+    .filter(Boolean)
+    .join(" · ");
+  const lines = [`[!failure]- ${title}`, ...formatTestcase(attempt.testcase, labels)];
+  if (attempt.code?.trim()) {
+    lines.push(`\`\`\`${(attempt.lang ?? "").toLowerCase()}`, attempt.code.trimEnd(), "```");
+  }
+  return quoteCallout(lines);
+}
+
+/** Input, expected and actual output and the error of a failed run, as labelled code blocks. */
+export function formatTestcase(
+  testcase: SubmissionAttempt["testcase"],
+  labels: Pick<AttemptLabels, "input" | "expected" | "output" | "error">
+): string[] {
+  const lines: string[] = [];
+  const blocks: Array<[string, string | undefined]> = [
+    [labels.input, testcase?.input],
+    [labels.expected, testcase?.expected],
+    [labels.output, testcase?.output],
+    [labels.error, testcase?.error]
+  ];
+  for (const [label, value] of blocks) {
+    if (value?.trim()) lines.push(`${label}:`, "```", value.trimEnd(), "```");
+  }
+  return lines;
+}
+
+/** Lines (possibly multi-line strings) as a `>`-quoted callout body. */
+export function quoteCallout(lines: string[]): string {
+  return lines
+    .join("\n")
+    .split("\n")
+    .map((line) => (line ? `> ${line}` : ">"))
+    .join("\n");
+}
+
+function tableRow(cells: string[]): string {
+  return `| ${cells.map((cell) => cell.replace(/\|/g, "\\|").replace(/\n/g, " ")).join(" | ")} |`;
+}
+
+/** Local `YYYY-MM-DD HH:mm`. */
+export function formatTime(timestamp: number | undefined): string {
+  if (!timestamp) return "";
+  const date = new Date(timestamp * 1000);
+  const hours = String(date.getHours()).padStart(2, "0");
+  const minutes = String(date.getMinutes()).padStart(2, "0");
+  return `${formatLocalDate(date)} ${hours}:${minutes}`;
+}
@@ -55,7 +55,7 @@ export class AuthService {
       csrftoken: this.plugin.settings.csrftoken.trim(),
       LEETCODE_SESSION: this.plugin.settings.leetcodeSession.trim()
     });
-    const who = await fetchWhoami(header);
+    const who = await fetchWhoami({ cookie: header, site: this.plugin.settings.site });
     const decision = sessionAfterWhoami({ hasCookies: true, whoami: who });
 
     if (!decision.keepCookies) {
@@ -76,14 +76,14 @@ export class AuthService {
     this.plugin.settings.leetcodeSession = "";
     this.plugin.settings.username = null;
     await this.plugin.saveSettings();
-    await clearLeetCodeAuthCookies();
+    await clearLeetCodeAuthCookies(this.plugin.settings.site);
   }
 
   async login(): Promise<boolean> {
     const notices = this.getNotices();
     let result;
     try {
-      result = await openLogin();
+      result = await openLogin(this.plugin.settings.site);
     } catch (error) {
       const message = error instanceof Error ? error.message : notices.loginTimeout;
       new Notice(message, 7000);
@@ -121,7 +121,7 @@ export class AuthService {
     this.plugin.settings.leetcodeSession = "";
     this.plugin.settings.username = null;
     await this.plugin.saveSettings();
-    await clearLeetCodeAuthCookies();
+    await clearLeetCodeAuthCookies(this.plugin.settings.site);
     new Notice(notices.loggedOut, 4000);
   }
 
@@ -130,7 +130,10 @@ export class AuthService {
     successNotice: (username: string) => string
   ): Promise<boolean> {
     const notices = this.getNotices();
-    const who = await fetchWhoami(cookieHeader(cookies));
+    const who = await fetchWhoami({
+      cookie: cookieHeader(cookies),
+      site: this.plugin.settings.site
+    });
     if (!who?.isSignedIn || !who.username) {
       new Notice(notices.cookiesInvalid, 5000);
       return false;
@@ -1,29 +1,9 @@
+import { nodeRequire } from "../nodeRequire";
+import { getSiteConfig, type LeetCodeSite } from "../sites";
 import type { AuthCookies } from "./types";
 
-const PARTITION = "persist:leetcode-template";
-const LOGIN_URL = "https://leetcode.com/accounts/login/";
-const COOKIE_URL = "https://leetcode.com/";
 const LOGIN_CAPTURE_TIMEOUT_MS = 120_000;
 
-type CjsRequire = (id: string) => unknown;
-
-type HostWindow = Window & {
-  require?: CjsRequire;
-  module?: { require?: CjsRequire };
-};
-
-function hostWindow(): HostWindow {
-  // Prefer activeWindow for Obsidian popout compatibility (eslint-plugin-obsidianmd).
-  return typeof activeWindow !== "undefined" ? activeWindow : window;
-}
-
-function nodeRequire(id: string): unknown {
-  const w = hostWindow();
-  const fn = w.require ?? w.module?.require;
-  if (!fn) throw new Error("Node require() unavailable from renderer.");
-  return fn(id);
-}
-
 function loadElectron(): ElectronModule {
   return nodeRequire("electron") as ElectronModule;
 }
@@ -56,9 +36,12 @@ export interface ElectronCookiesApi {
   remove(url: string, name: string): Promise<void>;
 }
 
-export async function tryCaptureCookies(cookies: ElectronCookiesApi): Promise<AuthCookies | null> {
+export async function tryCaptureCookies(
+  cookies: ElectronCookiesApi,
+  site: LeetCodeSite = "com"
+): Promise<AuthCookies | null> {
   try {
-    const list = await cookies.get({ url: COOKIE_URL });
+    const list = await cookies.get({ url: getSiteConfig(site).cookieUrls[0] });
     return extractAuthCookies(list);
   } catch {
     return null;
@@ -136,11 +119,11 @@ function resolveBrowserWindow(): BrowserWindowCtor {
   return BrowserWindow;
 }
 
-export function isReadyToCaptureAuth(url: string): boolean {
+export function isReadyToCaptureAuth(url: string, site: LeetCodeSite = "com"): boolean {
   if (!url) return false;
   try {
     const parsed = new URL(url);
-    if (parsed.hostname !== "leetcode.com" && parsed.hostname !== "www.leetcode.com") {
+    if (!getSiteConfig(site).hostnames.includes(parsed.hostname)) {
       return false;
     }
     const path = parsed.pathname;
@@ -157,10 +140,11 @@ export function isReadyToCaptureAuth(url: string): boolean {
   }
 }
 
-export async function openLogin(): Promise<OpenLoginResult> {
+export async function openLogin(site: LeetCodeSite = "com"): Promise<OpenLoginResult> {
   // Keep Google/GitHub/CF cookies in the partition so re-login skips verification.
   // Anonymous LEETCODE_SESSION on /accounts/login is ignored via isReadyToCaptureAuth.
   const BrowserWindowCtor = resolveBrowserWindow();
+  const config = getSiteConfig(site);
 
   return new Promise((resolve) => {
     const win = new BrowserWindowCtor({
@@ -169,7 +153,7 @@ export async function openLogin(): Promise<OpenLoginResult> {
       show: true,
       autoHideMenuBar: true,
       webPreferences: {
-        partition: PARTITION,
+        partition: config.partition,
         nodeIntegration: false,
         contextIsolation: true
       }
@@ -213,9 +197,9 @@ export async function openLogin(): Promise<OpenLoginResult> {
       } catch {
         url = "";
       }
-      if (!isReadyToCaptureAuth(url)) return;
+      if (!isReadyToCaptureAuth(url, site)) return;
 
-      const extracted = await tryCaptureCookies(win.webContents.session.cookies);
+      const extracted = await tryCaptureCookies(win.webContents.session.cookies, site);
       if (!extracted || settled) return;
 
       settle({ kind: "success", cookies: extracted });
@@ -229,7 +213,7 @@ export async function openLogin(): Promise<OpenLoginResult> {
       void tryCapture();
     });
 
-    win.loadURL(LOGIN_URL).catch(() => {
+    win.loadURL(config.loginUrl).catch(() => {
       settle({ kind: "cancelled" });
       safeClose();
     });
@@ -237,14 +221,13 @@ export async function openLogin(): Promise<OpenLoginResult> {
 }
 
 const AUTH_COOKIE_NAMES = new Set(["LEETCODE_SESSION", "csrftoken"]);
-const AUTH_COOKIE_URLS = ["https://leetcode.com/", "https://www.leetcode.com/"];
 
-function partitionSession(): { cookies: ElectronCookiesApi } | null {
+function partitionSession(partition: string): { cookies: ElectronCookiesApi } | null {
   try {
     const electron = loadElectron();
     const session = electron.session ?? electron.remote?.session;
-    if (session) return session.fromPartition(PARTITION);
-    return loadElectronRemote()?.session?.fromPartition(PARTITION) ?? null;
+    if (session) return session.fromPartition(partition);
+    return loadElectronRemote()?.session?.fromPartition(partition) ?? null;
   } catch {
     return null;
   }
@@ -254,11 +237,12 @@ function partitionSession(): { cookies: ElectronCookiesApi } | null {
  * Remove only LeetCode auth cookies from the login partition.
  * Leaves Google/GitHub/Cloudflare cookies so the next embedded login can skip re-verification.
  */
-export async function clearLeetCodeAuthCookies(): Promise<void> {
+export async function clearLeetCodeAuthCookies(site: LeetCodeSite = "com"): Promise<void> {
   try {
-    const sess = partitionSession();
+    const config = getSiteConfig(site);
+    const sess = partitionSession(config.partition);
     if (!sess) return;
-    for (const url of AUTH_COOKIE_URLS) {
+    for (const url of config.cookieUrls) {
       const list = await sess.cookies.get({ url });
       for (const cookie of list) {
         if (AUTH_COOKIE_NAMES.has(cookie.name)) {
@@ -0,0 +1,166 @@
+import { type App, debounce, normalizePath, type PluginManifest } from "obsidian";
+
+import { type CacheEntry, readThrough } from "./cachePolicy";
+import {
+  fetchProblemCatalogue,
+  fetchQuestion,
+  fetchQuestionStatus,
+  type LeetCodeSession,
+  type ProblemSummary,
+  type QuestionMetadata
+} from "./leetcode";
+import type { LeetCodeTemplateSettings } from "./settings";
+import type { LeetCodeSite } from "./sites";
+
+const CACHE_FILE = "cache.json";
+const CACHE_VERSION = 8;
+const HOUR_MS = 60 * 60 * 1000;
+
+interface CacheData {
+  version: number;
+  catalogues: Partial<Record<LeetCodeSite, CacheEntry<ProblemSummary[]>>>;
+  /** Keyed by `${site}:${slug}`; `status` is left out, as it changes with every solve. */
+  questions: Record<string, CacheEntry<QuestionMetadata>>;
+}
+
+export interface CachePluginHost {
+  app: App;
+  manifest: PluginManifest;
+  settings: LeetCodeTemplateSettings;
+}
+
+function emptyCache(): CacheData {
+  return { version: CACHE_VERSION, catalogues: {}, questions: {} };
+}
+
+/**
+ * Persistent cache for the problem catalogue and question metadata, stored as JSON in
+ * the plugin folder. Fresh entries skip the network; stale entries are refetched but
+ * still served when the request fails, so already-seen problems work offline.
+ */
+export class LeetCodeCache {
+  private data: CacheData | null = null;
+  private readonly scheduleSave = debounce(() => void this.flush(), 2000, true);
+
+  constructor(private readonly plugin: CachePluginHost) {}
+
+  async getCatalogue(
+    session: LeetCodeSession,
+    options: { force?: boolean } = {}
+  ): Promise<ProblemSummary[]> {
+    const data = await this.load();
+    return readThrough(
+      data.catalogues[session.site],
+      () => fetchProblemCatalogue(session),
+      (entry) => {
+        data.catalogues[session.site] = entry;
+        this.scheduleSave();
+      },
+      { ttlHours: this.plugin.settings.cacheTtlHours, force: options.force }
+    );
+  }
+
+  async findSlugByNumber(
+    frontendQuestionId: string,
+    session: LeetCodeSession
+  ): Promise<string | null> {
+    const target = String(frontendQuestionId).trim();
+    const lookup = (problems: ProblemSummary[]) =>
+      problems.find((problem) => problem.number === target)?.slug ?? null;
+
+    const slug = lookup(await this.getCatalogue(session));
+    if (slug) return slug;
+    // Newly published problems are missing from an older catalogue; retry once fresh.
+    const catalogue = (await this.load()).catalogues[session.site];
+    if (catalogue && Date.now() - catalogue.fetchedAt < HOUR_MS) return null;
+    return lookup(await this.getCatalogue(session, { force: true }));
+  }
+
+  /**
+   * Question metadata. The user's status is not cached: a cached question gets it from a
+   * small separate request, and has none offline.
+   */
+  async getQuestion(slug: string, session: LeetCodeSession): Promise<QuestionMetadata> {
+    const data = await this.load();
+    const key = `${session.site}:${slug}`;
+    let fetched = false;
+    const metadata = await readThrough(
+      data.questions[key],
+      () => fetchQuestion(slug, session),
+      (entry) => {
+        fetched = true;
+        data.questions[key] = { ...entry, value: { ...entry.value, status: null } };
+        this.scheduleSave();
+      },
+      { ttlHours: this.plugin.settings.cacheTtlHours }
+    );
+    if (fetched) return metadata;
+    return { ...metadata, status: await fetchQuestionStatus(slug, session).catch(() => null) };
+  }
+
+  /** Replace a problem's cached metadata with data fetched elsewhere. */
+  async storeQuestion(
+    slug: string,
+    session: LeetCodeSession,
+    metadata: QuestionMetadata
+  ): Promise<void> {
+    const data = await this.load();
+    data.questions[`${session.site}:${slug}`] = {
+      fetchedAt: Date.now(),
+      value: { ...metadata, status: null }
+    };
+    this.scheduleSave();
+  }
+
+  /** Drop cached questions and refetch the catalogue. Returns the catalogue size. */
+  async refresh(session: LeetCodeSession): Promise<number> {
+    const data = await this.load();
+    const problems = await this.getCatalogue(session, { force: true });
+    data.questions = {};
+    await this.flush();
+    return problems.length;
+  }
+
+  /** Write pending changes immediately (called on unload). */
+  async flush(): Promise<void> {
+    this.scheduleSave.cancel();
+    if (!this.data) return;
+    await this.plugin.app.vault.adapter.write(this.filePath(), JSON.stringify(this.data));
+  }
+
+  private async load(): Promise<CacheData> {
+    if (this.data) return this.data;
+
+    const adapter = this.plugin.app.vault.adapter;
+    const path = this.filePath();
+    let data = emptyCache();
+    try {
+      if (await adapter.exists(path)) {
+        const parsed: unknown = JSON.parse(await adapter.read(path));
+        if (isCacheData(parsed)) data = parsed;
+      }
+    } catch {
+      /* corrupt cache — start over */
+    }
+    this.data = data;
+    return data;
+  }
+
+  private filePath(): string {
+    const { app, manifest } = this.plugin;
+    const dir = manifest.dir ?? `${app.vault.configDir}/plugins/${manifest.id}`;
+    return normalizePath(`${dir}/${CACHE_FILE}`);
+  }
+}
+
+function isCacheData(value: unknown): value is CacheData {
+  if (!value || typeof value !== "object") return false;
+  const candidate = value as Partial<CacheData>;
+  return (
+    candidate.version === CACHE_VERSION &&
+    typeof candidate.catalogues === "object" &&
+    candidate.catalogues !== null &&
+    typeof candidate.questions === "object" &&
+    candidate.questions !== null
+  );
+}
@@ -0,0 +1,38 @@
+/** Cache freshness and offline fallback — no Obsidian imports (agent-runnable checks). */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface CacheEntry<T> {
+  fetchedAt: number;
+  value: T;
+}
+
+/** Entries younger than the TTL are served without a request; a TTL of 0 disables it. */
+export function isFresh(entry: CacheEntry<unknown>, ttlHours: number, now = Date.now()): boolean {
+  return now - entry.fetchedAt < Math.max(0, ttlHours) * HOUR_MS;
+}
+
+/**
+ * The cached value while it is fresh, otherwise a fetched one, which is handed to
+ * `store`. When the fetch fails a stale entry is served instead, unless `force` asked
+ * for a refetch.
+ */
+export async function readThrough<T>(
+  cached: CacheEntry<T> | undefined,
+  fetch: () => Promise<T>,
+  store: (entry: CacheEntry<T>) => void,
+  options: { ttlHours: number; force?: boolean; now?: number }
+): Promise<T> {
+  const now = options.now ?? Date.now();
+  if (cached && !options.force && isFresh(cached, options.ttlHours, now)) {
+    return cached.value;
+  }
+  try {
+    const value = await fetch();
+    store({ fetchedAt: now, value });
+    return value;
+  } catch (error) {
+    if (cached && !options.force) return cached.value;
+    throw error;
+  }
+}
@@ -0,0 +1,177 @@
+import { type App, normalizePath, Notice, type TFile } from "obsidian";
+
+import { indexFileName } from "../indexNotes/indexNote";
+import { writeIndexNote } from "../indexNotes/indexNoteWriter";
+import {
+  type ContestInfo,
+  type ContestRanking,
+  fetchContest,
+  fetchContestRanking,
+  fetchSubmissionHistory,
+  isRateLimitedError,
+  isSessionExpiredError,
+  type LeetCodeSession
+} from "../leetcode";
+import { collectNotesBySlug } from "../noteIndex";
+import { formatLocalDate } from "../review/scheduler";
+import type { LeetCodeTemplateSettings } from "../settings";
+import { contestUrl } from "../sites";
+import { getTemplateStrings, sectionHeaders } from "../template";
+import {
+  type ContestIndexLabels,
+  contestProblemStatus,
+  type ContestRow,
+  contestScore,
+  formatContestResult,
+  formatProblemTable
+} from "./contestIndex";
+
+export type ContestStrings = {
+  modal: { title: string; label: string; placeholder: string; button: string };
+  invalidInput: string;
+  fetching: string;
+  creating: (done: number, total: number, title: string) => string;
+  summary: (summary: ContestImportSummary) => string;
+  labels: ContestIndexLabels;
+};
+
+export interface ContestImportSummary {
+  contest: string;
+  created: number;
+  existing: number;
+  failed: Array<{ slug: string; reason: string }>;
+}
+
+export interface ContestImportHost {
+  app: App;
+  settings: LeetCodeTemplateSettings;
+  createNoteForSlug(slug: string, session: LeetCodeSession, folder?: string): Promise<string>;
+  ensureFolder(path: string): Promise<void>;
+}
+
+/**
+ * Creates notes for the problems of a contest in a subfolder named after its slug and
+ * writes an index note there with the user's status per problem, rank and score.
+ * Problems that already have a note anywhere in the vault keep it and are only linked.
+ */
+export class ContestImportService {
+  constructor(
+    private readonly plugin: ContestImportHost,
+    private readonly getStrings: () => ContestStrings
+  ) {}
+
+  /**
+   * Import the contest and return the index note. Session and rate-limit errors abort
+   * the run; other per-problem failures are listed in the summary notice.
+   */
+  async importContest(contestSlug: string, session: LeetCodeSession): Promise<TFile> {
+    const strings = this.getStrings();
+    const { app, settings } = this.plugin;
+    const notice = new Notice(strings.fetching, 0);
+    try {
+      const contest = await fetchContest(contestSlug, session);
+      const root = settings.targetFolder.trim();
+      const folder = normalizePath(root ? `${root}/${contest.slug}` : contest.slug);
+      await this.plugin.ensureFolder(folder);
+
+      const summary: ContestImportSummary = {
+        contest: contest.title,
+        created: 0,
+        existing: 0,
+        failed: []
+      };
+      const notes = collectNotesBySlug(app);
+      const files = new Map<string, TFile>();
+      for (const [index, problem] of contest.problems.entries()) {
+        notice.setMessage(strings.creating(index + 1, contest.problems.length, problem.title));
+        const existing = notes.get(problem.slug);
+        if (existing) {
+          files.set(problem.slug, existing);
+          summary.existing += 1;
+          continue;
+        }
+        try {
+          const path = await this.plugin.createNoteForSlug(problem.slug, session, folder);
+          const file = app.vault.getFileByPath(path);
+          if (file) files.set(problem.slug, file);
+          summary.created += 1;
+        } catch (error) {
+          if (isSessionExpiredError(error) || isRateLimitedError(error)) throw error;
+          const reason = error instanceof Error ? error.message : String(error);
+          summary.failed.push({ slug: problem.slug, reason });
+        }
+      }
+
+      const indexPath = normalizePath(`${folder}/${indexFileName(contest)}.md`);
+      const rows = await this.buildRows(contest, files, indexPath, session);
+      const ranking = settings.username
+        ? await fetchContestRanking(settings.username, contest.title, session)
+        : null;
+      const index = await this.writeIndex(indexPath, contest, rows, ranking);
+      notice.hide();
+      new Notice(strings.summary(summary), 5000);
+      return index;
+    } catch (error) {
+      notice.hide();
+      throw error;
+    }
+  }
+
+  private async buildRows(
+    contest: ContestInfo,
+    files: Map<string, TFile>,
+    indexPath: string,
+    session: LeetCodeSession
+  ): Promise<ContestRow[]> {
+    const { fileManager } = this.plugin.app;
+    const rows: ContestRow[] = [];
+    for (const problem of contest.problems) {
+      const attempts = await fetchSubmissionHistory(problem.slug, session);
+      const file = files.get(problem.slug);
+      rows.push({
+        link: file
+          ? fileManager.generateMarkdownLink(file, indexPath, undefined, problem.title)
+          : problem.title,
+        credit: problem.credit,
+        status: contestProblemStatus(attempts, contest)
+      });
+    }
+    return rows;
+  }
+
+  /** Create the index note, or refresh its properties and sections on a re-run. */
+  private async writeIndex(
+    path: string,
+    contest: ContestInfo,
+    rows: ContestRow[],
+    ranking: ContestRanking | null
+  ): Promise<TFile> {
+    const { labels } = this.getStrings();
+    const properties: Record<string, string | number> = {
+      contest: contestUrl(this.plugin.settings.site, contest.slug),
+      date: formatLocalDate(new Date(contest.startTime * 1000))
+    };
+    if (ranking) properties.rank = ranking.ranking;
+    const score = contestScore(rows);
+    if (ranking || score > 0) properties.score = score;
+
+    const headers = getTemplateStrings(this.plugin.settings.language);
+    // Headers are matched in every language, so switching it does not add a second copy.
+    return writeIndexNote(this.plugin.app, path, {
+      title: contest.title,
+      properties,
+      sections: [
+        {
+          header: headers.contestProblemsHeader,
+          headers: sectionHeaders("contestProblemsHeader"),
+          body: formatProblemTable(rows, labels)
+        },
+        {
+          header: headers.contestResultHeader,
+          headers: sectionHeaders("contestResultHeader"),
+          body: formatContestResult(rows, ranking, labels)
+        }
+      ]
+    });
+  }
+}
@@ -0,0 +1,97 @@
+/** Contest index notes — no Obsidian imports (agent-runnable checks). */
+
+import type { ContestInfo, ContestRanking, SubmissionAttempt } from "../leetcode";
+
+/**
+ * `contest`: accepted during the contest; `upsolved`: accepted only afterwards;
+ * `tried`: submitted but never accepted; `none`: no submissions.
+ */
+export type ContestProblemStatus = "contest" | "upsolved" | "tried" | "none";
+
+export interface ContestIndexLabels {
+  problem: string;
+  points: string;
+  status: string;
+  statuses: Record<ContestProblemStatus, string>;
+  rank: string;
+  score: string;
+  solved: string;
+  finishTime: string;
+  notParticipated: string;
+}
+
+export interface ContestRow {
+  /** Link to the problem's note, as generated by Obsidian. */
+  link: string;
+  credit: number;
+  status: ContestProblemStatus;
+}
+
+const ACCEPTED = "Accepted";
+
+export function contestProblemStatus(
+  attempts: SubmissionAttempt[],
+  contest: Pick<ContestInfo, "startTime" | "duration">
+): ContestProblemStatus {
+  const accepted = attempts.filter((attempt) => attempt.status === ACCEPTED);
+  if (accepted.length === 0) return attempts.length > 0 ? "tried" : "none";
+  const end = contest.startTime + contest.duration;
+  const inContest = accepted.some(
+    (attempt) => (attempt.timestamp ?? 0) >= contest.startTime && (attempt.timestamp ?? 0) <= end
+  );
+  return inContest ? "contest" : "upsolved";
+}
+
+/** Points for the problems accepted during the contest. */
+export function contestScore(rows: ContestRow[]): number {
+  return rows.reduce((sum, row) => sum + (row.status === "contest" ? row.credit : 0), 0);
+}
+
+/** One table row per problem, in contest order. */
+export function formatProblemTable(rows: ContestRow[], labels: ContestIndexLabels): string {
+  return [
+    `| # | ${labels.problem} | ${labels.points} | ${labels.status} |`,
+    "|---|---|---|---|",
+    ...rows.map((row, index) => {
+      const status = labels.statuses[row.status];
+      return `| ${index + 1} | ${escapeCell(row.link)} | ${row.credit} | ${status} |`;
+    })
+  ].join("\n");
+}
+
+/**
+ * Rank, score and finish time when the user took part; otherwise only a note saying so.
+ * The score comes from submission times, so it is shown even if the rank is unavailable.
+ */
+export function formatContestResult(
+  rows: ContestRow[],
+  ranking: ContestRanking | null,
+  labels: ContestIndexLabels
+): string {
+  const score = contestScore(rows);
+  if (!ranking && score === 0) return labels.notParticipated;
+  const maxScore = rows.reduce((sum, row) => sum + row.credit, 0);
+  const solved = rows.filter((row) => row.status === "contest").length;
+  const lines: string[] = [];
+  if (ranking) lines.push(`- ${labels.rank}: ${ranking.ranking}`);
+  lines.push(`- ${labels.score}: ${score} / ${maxScore}`);
+  lines.push(`- ${labels.solved}: ${ranking?.problemsSolved ?? solved} / ${rows.length}`);
+  if (ranking?.finishTimeInSeconds) {
+    lines.push(`- ${labels.finishTime}: ${formatDuration(ranking.finishTimeInSeconds)}`);
+  }
+  return lines.join("\n");
+}
+
+/** `1:05:09`; contests are short enough not to need days. */
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  return `${hours}:${String(minutes).padStart(2, "0")}:${String(secs).padStart(2, "0")}`;
+}
+
+/** Wikilink aliases use `|`, which would split a table cell. */
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, "\\|");
+}
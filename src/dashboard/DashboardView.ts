@@ -0,0 +1,196 @@
+import { ItemView, setIcon, type WorkspaceLeaf } from "obsidian";
+
+import { collectNotesBySlug } from "../noteIndex";
+import { SOLUTIONS_HEADERS } from "../template";
+import {
+  computeStats,
+  type CountEntry,
+  parseSolutionEntries,
+  type ProblemNoteSummary,
+  type VaultStats
+} from "./stats";
+
+export const DASHBOARD_VIEW_TYPE = "leetcode-dashboard";
+
+export type DashboardStrings = {
+  viewTitle: string;
+  refresh: string;
+  loading: string;
+  empty: string;
+  total: (count: number) => string;
+  byDifficulty: string;
+  byTag: string;
+  byLanguage: string;
+  overTime: string;
+  weakestTags: string;
+  noTimestamps: string;
+};
+
+const TOP_TAGS = 20;
+const CHART_HEIGHT = 120;
+const CHART_BAR_WIDTH = 24;
+
+export class DashboardView extends ItemView {
+  private rendering = false;
+
+  constructor(
+    leaf: WorkspaceLeaf,
+    private readonly getStrings: () => DashboardStrings
+  ) {
+    super(leaf);
+  }
+
+  override getViewType(): string {
+    return DASHBOARD_VIEW_TYPE;
+  }
+
+  override getDisplayText(): string {
+    return this.getStrings().viewTitle;
+  }
+
+  override getIcon(): string {
+    return "bar-chart-2";
+  }
+
+  protected override async onOpen(): Promise<void> {
+    await this.render();
+  }
+
+  protected override async onClose(): Promise<void> {
+    this.contentEl.empty();
+  }
+
+  async render(): Promise<void> {
+    if (this.rendering) return;
+    this.rendering = true;
+    const strings = this.getStrings();
+    const { contentEl } = this;
+    try {
+      contentEl.empty();
+      const header = contentEl.createDiv();
+      header.createEl("h4", { text: strings.viewTitle });
+      const refresh = header.createEl("button", { attr: { "aria-label": strings.refresh } });
+      setIcon(refresh, "refresh-cw");
+      refresh.addEventListener("click", () => void this.render());
+
+      const body = contentEl.createDiv({ text: strings.loading });
+      const stats = computeStats(await this.collectSummaries());
+      body.empty();
+      this.renderStats(body, stats, strings);
+    } finally {
+      this.rendering = false;
+    }
+  }
+
+  private async collectSummaries(): Promise<ProblemNoteSummary[]> {
+    const { metadataCache, vault } = this.app;
+    const headers = Object.values(SOLUTIONS_HEADERS);
+    const summaries: ProblemNoteSummary[] = [];
+    for (const file of collectNotesBySlug(this.app).values()) {
+      const frontmatter = metadataCache.getFileCache(file)?.frontmatter;
+      const content = await vault.cachedRead(file);
+      summaries.push({
+        difficulty: typeof frontmatter?.difficulty === "string" ? frontmatter.difficulty : "",
+        tags: toStringList(frontmatter?.tags),
+        solutions: parseSolutionEntries(content, headers)
+      });
+    }
+    return summaries;
+  }
+
+  private renderStats(el: HTMLElement, stats: VaultStats, strings: DashboardStrings): void {
+    if (stats.total === 0) {
+      el.createEl("p", { text: strings.empty, cls: "setting-item-description" });
+      return;
+    }
+
+    el.createEl("p", { text: strings.total(stats.total) });
+    renderCounts(el, strings.byDifficulty, stats.byDifficulty, stats.total);
+    renderCounts(el, strings.byTag, stats.byTag.slice(0, TOP_TAGS), stats.total);
+    renderCounts(el, strings.byLanguage, stats.byLanguage, stats.total);
+
+    el.createEl("h5", { text: strings.overTime });
+    if (stats.solvesByMonth.length === 0) {
+      el.createEl("p", { text: strings.noTimestamps, cls: "setting-item-description" });
+    } else {
+      renderMonthChart(el, stats.solvesByMonth);
+    }
+
+    el.createEl("h5", { text: strings.weakestTags });
+    const list = el.createEl("ol");
+    for (const entry of stats.weakestTags) {
+      list.createEl("li", { text: `${entry.key} — ${entry.count}` });
+    }
+  }
+}
+
+function renderCounts(el: HTMLElement, title: string, entries: CountEntry[], total: number): void {
+  if (entries.length === 0) return;
+  el.createEl("h5", { text: title });
+  const table = el.createEl("table");
+  for (const entry of entries) {
+    const row = table.createEl("tr");
+    row.createEl("td", { text: entry.key });
+    row.createEl("td", { text: String(entry.count) });
+    const bar = row.createEl("td").createEl("progress");
+    bar.max = Math.max(total, 1);
+    bar.value = entry.count;
+  }
+}
+
+function renderMonthChart(el: HTMLElement, months: CountEntry[]): void {
+  const max = Math.max(...months.map((m) => m.count), 1);
+  const labelHeight = 14;
+  const width = months.length * CHART_BAR_WIDTH;
+  const svg = el.createSvg("svg", {
+    attr: {
+      viewBox: `0 0 ${width} ${CHART_HEIGHT + labelHeight}`,
+      width: "100%",
+      height: CHART_HEIGHT + labelHeight,
+      preserveAspectRatio: "xMinYMax meet"
+    }
+  });
+
+  months.forEach((month, index) => {
+    const height = Math.max(1, Math.round((month.count / max) * (CHART_HEIGHT - labelHeight)));
+    const x = index * CHART_BAR_WIDTH + 2;
+    const rect = svg.createSvg("rect", {
+      attr: {
+        x,
+        y: CHART_HEIGHT - height,
+        width: CHART_BAR_WIDTH - 4,
+        height,
+        fill: "currentColor",
+        opacity: 0.6
+      }
+    });
+    rect.createSvg("title").textContent = `${month.key}: ${month.count}`;
+
+    const label = svg.createSvg("text", {
+      attr: {
+        x: x + (CHART_BAR_WIDTH - 4) / 2,
+        y: CHART_HEIGHT + labelHeight - 2,
+        "text-anchor": "middle",
+        "font-size": 8,
+        fill: "currentColor"
+      }
+    });
+    // Month only; the year is shown on January and the first bar.
+    const [year, monthNumber] = month.key.split("-");
+    const showYear = index === 0 || monthNumber === "01";
+    label.textContent = showYear ? `${year?.slice(2)}/${monthNumber}` : (monthNumber ?? "");
+  });
+}
+
+function toStringList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === "string" && Boolean(item.trim()));
+  }
+  if (typeof value === "string") {
+    return value
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  return [];
+}
@@ -0,0 +1,144 @@
+/** Vault statistics over problem notes — no Obsidian imports (agent-runnable checks). */
+
+import { parseComplexityLine } from "../solutions/complexity";
+import { solutionLinkExtension } from "../solutions/solutionFiles";
+
+export interface SolutionEntry {
+  lang: string;
+  /** Unix seconds, when the details line carries a timestamp. */
+  timestamp?: number;
+}
+
+export interface ProblemNoteSummary {
+  difficulty: string;
+  tags: string[];
+  solutions: SolutionEntry[];
+}
+
+export interface CountEntry {
+  key: string;
+  count: number;
+}
+
+export interface VaultStats {
+  total: number;
+  byDifficulty: CountEntry[];
+  byTag: CountEntry[];
+  byLanguage: CountEntry[];
+  /** Problems per month (`YYYY-MM`) by their earliest solution timestamp, oldest first. */
+  solvesByMonth: CountEntry[];
+  weakestTags: CountEntry[];
+}
+
+const DIFFICULTY_ORDER = ["Easy", "Medium", "Hard"];
+const ISO_TIMESTAMP = /\b(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z)\b/;
+
+export function computeStats(notes: ProblemNoteSummary[], weakestCount = 10): VaultStats {
+  const difficulty = new Map<string, number>();
+  const tags = new Map<string, number>();
+  const languages = new Map<string, number>();
+  const months = new Map<string, number>();
+
+  for (const note of notes) {
+    increment(difficulty, note.difficulty || "Unknown");
+    for (const tag of new Set(note.tags)) increment(tags, tag);
+    for (const lang of new Set(note.solutions.map((s) => s.lang).filter(Boolean))) {
+      increment(languages, lang);
+    }
+
+    const timestamps = note.solutions
+      .map((s) => s.timestamp)
+      .filter((t): t is number => typeof t === "number");
+    if (timestamps.length > 0) {
+      increment(months, new Date(Math.min(...timestamps) * 1000).toISOString().slice(0, 7));
+    }
+  }
+
+  const byTag = sortByCount(tags);
+  return {
+    total: notes.length,
+    byDifficulty: [...difficulty.entries()]
+      .map(([key, count]) => ({ key, count }))
+      .sort((a, b) => difficultyRank(a.key) - difficultyRank(b.key)),
+    byTag,
+    byLanguage: sortByCount(languages),
+    solvesByMonth: [...months.entries()]
+      .map(([key, count]) => ({ key, count }))
+      .sort((a, b) => a.key.localeCompare(b.key)),
+    weakestTags: [...byTag]
+      .sort((a, b) => a.count - b.count || a.key.localeCompare(b.key))
+      .slice(0, weakestCount)
+  };
+}
+
+/**
+ * Solutions listed under any of the given `## <header>` sections, as written by
+ * formatSolutionsSection: an optional details line (`Lang · … · ISO time`) before each fence.
+ */
+export function parseSolutionEntries(content: string, headers: string[]): SolutionEntry[] {
+  const section = extractSection(content, headers);
+  if (!section) return [];
+
+  const entries: SolutionEntry[] = [];
+  const lines = section.split("\n");
+  let inFence = false;
+  let lastText = "";
+  for (const line of lines) {
+    const fence = line.match(/^\s*```+\s*([\w+#-]*)/);
+    if (fence) {
+      if (!inFence) {
+        entries.push(toEntry(lastText, fence[1] ?? ""));
+        lastText = "";
+      }
+      inFence = !inFence;
+      continue;
+    }
+    // Complexity lines sit between the details line and the fence.
+    if (inFence || !line.trim() || parseComplexityLine(line)) continue;
+    // Solutions stored as separate files are linked instead of fenced.
+    const extension = solutionLinkExtension(line);
+    if (extension) {
+      entries.push(toEntry(lastText, extension));
+      lastText = "";
+      continue;
+    }
+    lastText = line.trim();
+  }
+  return entries;
+}
+
+function toEntry(detailsLine: string, fenceLang: string): SolutionEntry {
+  const details = detailsLine.includes("·") ? detailsLine : "";
+  const lang = details.split("·")[0]?.trim() || fenceLang;
+  const time = details.match(ISO_TIMESTAMP)?.[1];
+  const parsed = time ? Date.parse(time) : NaN;
+  return Number.isNaN(parsed) ? { lang } : { lang, timestamp: Math.floor(parsed / 1000) };
+}
+
+function extractSection(content: string, headers: string[]): string | null {
+  const lines = content.split("\n");
+  const wanted = new Set(headers.map((h) => h.toLowerCase()));
+  const start = lines.findIndex((line) => {
+    const match = line.match(/^##\s+(.+?)\s*$/);
+    return Boolean(match?.[1] && wanted.has(match[1].toLowerCase()));
+  });
+  if (start === -1) return null;
+  const rest = lines.slice(start + 1);
+  const end = rest.findIndex((line) => /^##?\s/.test(line));
+  return (end === -1 ? rest : rest.slice(0, end)).join("\n");
+}
+
+function increment(map: Map<string, number>, key: string): void {
+  map.set(key, (map.get(key) ?? 0) + 1);
+}
+
+function sortByCount(map: Map<string, number>): CountEntry[] {
+  return [...map.entries()]
+    .map(([key, count]) => ({ key, count }))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+}
+
+function difficultyRank(difficulty: string): number {
+  const index = DIFFICULTY_ORDER.indexOf(difficulty);
+  return index === -1 ? DIFFICULTY_ORDER.length : index;
+}
@@ -0,0 +1,213 @@
+/** Problem description parser — no Obsidian imports (agent-runnable checks). */
+
+export interface DescriptionExample {
+  /** 1-based position among the examples. */
+  number: number;
+  /** Heading as written in the description, e.g. `Example 1`, `示例 1`. */
+  title: string;
+  input: string;
+  output: string;
+  explanation: string;
+  /** `src` of the images shown with the example. */
+  images: string[];
+}
+
+/** A problem description split into its parts; text keeps `10^4` style math. */
+export interface ParsedDescription {
+  /** Problem statement before the first example, as HTML. */
+  statement: string;
+  examples: DescriptionExample[];
+  /** One Markdown line per constraint; `<code>` becomes inline code. */
+  constraints: string[];
+  /** Follow-up question as Markdown; empty when there is none. */
+  followUp: string;
+  /** Headings and example fields as written in the description, so they match its language. */
+  labels: DescriptionLabels;
+}
+
+export interface DescriptionLabels {
+  input: string;
+  output: string;
+  explanation: string;
+  constraints: string;
+  followUp: string;
+}
+
+type MarkerKind = "example" | "constraints" | "followUp";
+
+interface Marker {
+  kind: MarkerKind;
+  label: string;
+  start: number;
+  end: number;
+}
+
+/** A bold heading such as `<strong>Example 1:</strong>`; group 2 is the heading text. */
+const boldHeading = (words: string) =>
+  new RegExp(
+    String.raw`<(strong|b)\b[^>]*>\s*(${words})\s*[:：]?(?:\s|&nbsp;)*<\/\1>\s*[:：]?`,
+    "gi"
+  );
+
+const MARKERS: Array<{ kind: MarkerKind; pattern: RegExp }> = [
+  { kind: "example", pattern: boldHeading(String.raw`(?:Example|示例)\s*\d*`) },
+  { kind: "constraints", pattern: boldHeading("Constraints|提示") },
+  { kind: "followUp", pattern: boldHeading(String.raw`Follow[\s-]*up|进阶`) }
+];
+
+const FIELD = /^\s*(Input|Output|Explanation|输入|输出|解释)\s*[:：]\s*(.*)$/i;
+const FIELD_NAMES: Record<string, "input" | "output" | "explanation"> = {
+  input: "input",
+  输入: "input",
+  output: "output",
+  输出: "output",
+  explanation: "explanation",
+  解释: "explanation"
+};
+const IMG_SRC = /<img\b[^>]*?\bsrc\s*=\s*(["'])(.*?)\1[^>]*>/gi;
+
+export function parseDescription(html: string): ParsedDescription {
+  const source = readableMath(html);
+  const markers = findMarkers(source);
+  const parsed: ParsedDescription = {
+    statement: trimFragment(source.slice(0, markers[0]?.start ?? source.length)),
+    examples: [],
+    constraints: [],
+    followUp: "",
+    labels: {
+      input: "Input",
+      output: "Output",
+      explanation: "Explanation",
+      constraints: "Constraints",
+      followUp: "Follow-up"
+    }
+  };
+
+  markers.forEach((marker, index) => {
+    const next = markers[index + 1]?.start ?? source.length;
+    const body = trimFragment(source.slice(marker.end, next));
+    if (marker.kind === "example") {
+      const number = parsed.examples.length + 1;
+      parsed.examples.push(parseExample(body, marker.label, number, parsed.labels));
+    } else if (marker.kind === "constraints") {
+      parsed.constraints.push(...parseConstraints(body));
+      parsed.labels.constraints = marker.label;
+    } else {
+      parsed.followUp = inlineMarkdown(body);
+      parsed.labels.followUp = marker.label;
+    }
+  });
+  return parsed;
+}
+
+/** `10<sup>4</sup>` → `10^4`, `x<sub>i</sub>` → `x_i`; longer exponents get parentheses. */
+export function readableMath(html: string): string {
+  const wrap = (inner: string) => {
+    const text = decodeEntities(inner.replace(/<[^>]+>/g, "")).trim();
+    return /^[\w.]+$/.test(text) ? text : `(${text})`;
+  };
+  return html
+    .replace(/<sup>(.*?)<\/sup>/gi, (_match, inner: string) => `^${wrap(inner)}`)
+    .replace(/<sub>(.*?)<\/sub>/gi, (_match, inner: string) => `_${wrap(inner)}`);
+}
+
+function findMarkers(html: string): Marker[] {
+  const markers: Marker[] = [];
+  for (const { kind, pattern } of MARKERS) {
+    for (const match of html.matchAll(pattern)) {
+      const label = (match[2] ?? "").replace(/\s+/g, " ").trim();
+      markers.push({ kind, label, start: match.index, end: match.index + match[0].length });
+    }
+  }
+  return markers.sort((a, b) => a.start - b.start);
+}
+
+/** Example fields from its HTML; the field labels found are written to `labels`. */
+function parseExample(
+  html: string,
+  title: string,
+  number: number,
+  labels: DescriptionLabels
+): DescriptionExample {
+  const fields = { input: [] as string[], output: [] as string[], explanation: [] as string[] };
+  let current: keyof typeof fields | null = null;
+  for (const line of htmlToText(html).split("\n")) {
+    const match = line.match(FIELD);
+    if (match) {
+      current = FIELD_NAMES[(match[1] ?? "").toLowerCase()] ?? null;
+      if (!current) continue;
+      labels[current] = match[1] ?? labels[current];
+      if (match[2]?.trim()) fields[current].push(match[2].trim());
+    } else if (current && line.trim()) {
+      fields[current].push(line.trim());
+    }
+  }
+  return {
+    number,
+    title,
+    input: fields.input.join("\n"),
+    output: fields.output.join("\n"),
+    explanation: fields.explanation.join("\n"),
+    images: [...html.matchAll(IMG_SRC)].map((match) => match[2] ?? "").filter(Boolean)
+  };
+}
+
+/** `<li>` items, plus any paragraphs after the list; plain lines when there is no list. */
+function parseConstraints(html: string): string[] {
+  const items = [...html.matchAll(/<li\b[^>]*>([\s\S]*?)<\/li>/gi)].map((match) =>
+    inlineMarkdown(match[1] ?? "")
+  );
+  const listEnd = html.toLowerCase().lastIndexOf("</ul>");
+  const rest = items.length > 0 && listEnd >= 0 ? html.slice(listEnd + "</ul>".length) : html;
+  const lines = htmlToText(rest.replace(/<code>([\s\S]*?)<\/code>/gi, "`$1`"))
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+  return [...items, ...lines].filter(Boolean);
+}
+
+/** Inline HTML as one line of Markdown: code, bold and italics are kept, other tags dropped. */
+function inlineMarkdown(html: string): string {
+  const text = html
+    .replace(/<code>([\s\S]*?)<\/code>/gi, (_match, code: string) =>
+      code.trim() ? `\`${stripTags(code).trim()}\`` : ""
+    )
+    .replace(/<(strong|b)>([\s\S]*?)<\/\1>/gi, (_match, _tag: string, bold: string) =>
+      bold.trim() ? `**${bold.trim()}**` : ""
+    )
+    .replace(/<(em|i)>([\s\S]*?)<\/\1>/gi, (_match, _tag: string, italic: string) =>
+      italic.trim() ? `*${italic.trim()}*` : ""
+    );
+  return stripTags(text).replace(/\s+/g, " ").trim();
+}
+
+function htmlToText(html: string): string {
+  return stripTags(
+    html.replace(/<br\s*\/?>/gi, "\n").replace(/<\/?(p|div|li|pre|ul|ol)\b[^>]*>/gi, "\n")
+  );
+}
+
+function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, ""));
+}
+
+/** Drop the tag remnants and blank paragraphs left at the cut between two parts. */
+function trimFragment(html: string): string {
+  return html
+    .replace(/^(?:\s|&nbsp;|<\/(?:p|div|strong|b)>)+/i, "")
+    .replace(/(?:\s|&nbsp;|<p\b[^>]*>(?:\s|&nbsp;)*<\/p>|<(?:p|div)\b[^>]*>)+$/i, "");
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&#(\d+);/g, (_match, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_match, code: string) =>
+      String.fromCodePoint(parseInt(code, 16))
+    )
+    .replace(/&amp;/g, "&");
+}
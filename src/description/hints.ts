@@ -0,0 +1,10 @@
+/** Hint callouts — no Obsidian imports (agent-runnable checks). */
+
+import { quoteCallout } from "../attempts";
+
+/** One collapsed `[!hint]- <label> N` callout per hint (already Markdown), numbered from 1. */
+export function formatHintCallouts(hints: string[], label: string): string {
+  return hints
+    .map((text, index) => quoteCallout([`[!hint]- ${label} ${index + 1}`, text.trim()]))
+    .join("\n\n");
+}
@@ -0,0 +1,150 @@
+/** Frontmatter values for problem notes — no Obsidian imports (agent-runnable checks). */
+
+import type { QuestionMetadata, SubmissionSolution } from "./leetcode";
+import { formatLocalDate, initialReviewState, writeReviewState } from "./review/scheduler";
+import { problemUrl } from "./sites";
+import { bestComplexity, type Complexity } from "./solutions/complexity";
+
+/** Optional properties, toggled in settings. */
+export interface PropertyOptions {
+  propertyId: boolean;
+  propertyAcceptanceRate: boolean;
+  propertyCreated: boolean;
+  propertySolved: boolean;
+  propertyStatus: boolean;
+  propertyLanguages: boolean;
+  propertyComplexity: boolean;
+}
+
+export const PROPERTY_KEYS = {
+  id: "id",
+  acceptanceRate: "acceptance_rate",
+  created: "created",
+  solved: "solved",
+  status: "status",
+  languages: "languages",
+  daily: "daily",
+  dailyDate: "daily_date",
+  timeComplexity: "time_complexity",
+  spaceComplexity: "space_complexity"
+} as const;
+
+export type ProblemStatus = "solved" | "attempted" | "todo";
+
+/**
+ * Frontmatter for a new note as a plain object, serialized by the caller with
+ * `stringifyYaml`. Key order is the order properties appear in the note.
+ */
+export function buildFrontmatter(
+  metadata: QuestionMetadata,
+  solutions: SubmissionSolution[],
+  options: Partial<PropertyOptions>,
+  today: string
+): Record<string, unknown> {
+  const frontmatter: Record<string, unknown> = {
+    title: metadata.title,
+    number: toNumberIfNumeric(metadata.number ?? ""),
+    difficulty: metadata.difficulty,
+    tags: [...metadata.tags],
+    link: problemUrl(metadata.site, metadata.slug)
+  };
+
+  if (options.propertyId && metadata.id) {
+    frontmatter[PROPERTY_KEYS.id] = toNumberIfNumeric(metadata.id);
+  }
+  if (options.propertyAcceptanceRate && metadata.acceptanceRate !== undefined) {
+    frontmatter[PROPERTY_KEYS.acceptanceRate] = metadata.acceptanceRate;
+  }
+  if (options.propertyStatus) {
+    frontmatter[PROPERTY_KEYS.status] = problemStatus(metadata, solutions);
+  }
+  if (options.propertyCreated) {
+    frontmatter[PROPERTY_KEYS.created] = today;
+  }
+  applySolutionProperties(frontmatter, solutions, options);
+
+  writeReviewState(frontmatter, initialReviewState(today));
+  return frontmatter;
+}
+
+/**
+ * Merge imported solutions into existing frontmatter: adds their languages, keeps the
+ * earliest solved date and marks the problem solved. The complexity is the best of
+ * `complexities` — the lines of every solution in the note, not just the imported ones —
+ * so a corrected line replaces an earlier value. Only enabled properties are touched.
+ */
+export function applySolutionProperties(
+  frontmatter: Record<string, unknown>,
+  solutions: SubmissionSolution[],
+  options: Partial<PropertyOptions>,
+  complexities: Array<Partial<Complexity>> = solutions.map((solution) => ({
+    time: solution.timeComplexity,
+    space: solution.spaceComplexity
+  }))
+): void {
+  if (solutions.length === 0) return;
+
+  if (options.propertyStatus) {
+    frontmatter[PROPERTY_KEYS.status] = "solved" satisfies ProblemStatus;
+  }
+
+  if (options.propertySolved) {
+    const timestamps = solutions
+      .map((solution) => solution.timestamp)
+      .filter((value): value is number => typeof value === "number" && value > 0);
+    if (timestamps.length > 0) {
+      const earliest = formatLocalDate(new Date(Math.min(...timestamps) * 1000));
+      const current = frontmatter[PROPERTY_KEYS.solved];
+      const existing = typeof current === "string" && current ? current : null;
+      frontmatter[PROPERTY_KEYS.solved] =
+        existing && existing < earliest ? existing : earliest;
+    }
+  }
+
+  if (options.propertyLanguages) {
+    const languages = toStringList(frontmatter[PROPERTY_KEYS.languages]);
+    for (const solution of solutions) {
+      const lang = solution.lang?.trim();
+      if (lang && !languages.includes(lang)) languages.push(lang);
+    }
+    frontmatter[PROPERTY_KEYS.languages] = languages;
+  }
+
+  if (options.propertyComplexity) {
+    const best = bestComplexity(complexities);
+    if (best) {
+      frontmatter[PROPERTY_KEYS.timeComplexity] = best.time;
+      if (best.space) frontmatter[PROPERTY_KEYS.spaceComplexity] = best.space;
+      else delete frontmatter[PROPERTY_KEYS.spaceComplexity];
+    }
+  }
+}
+
+/** Record that the problem was the daily challenge on `date` (the latest date wins). */
+export function markDailyChallenge(frontmatter: Record<string, unknown>, date: string): void {
+  frontmatter[PROPERTY_KEYS.daily] = true;
+  const current = frontmatter[PROPERTY_KEYS.dailyDate];
+  if (typeof current !== "string" || current < date) {
+    frontmatter[PROPERTY_KEYS.dailyDate] = date;
+  }
+}
+
+export function problemStatus(
+  metadata: Pick<QuestionMetadata, "status">,
+  solutions: SubmissionSolution[]
+): ProblemStatus {
+  if (solutions.length > 0 || metadata.status === "ac") return "solved";
+  if (metadata.status === "notac") return "attempted";
+  return "todo";
+}
+
+function toNumberIfNumeric(value: string): string | number {
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
+
+function toStringList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === "string" && Boolean(item));
+  }
+  return typeof value === "string" && value ? [value] : [];
+}
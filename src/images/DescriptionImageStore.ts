@@ -0,0 +1,64 @@
+import { type App, normalizePath, type TFile } from "obsidian";
+
+import { downloadAsset, type QuestionMetadata } from "../leetcode";
+import type { LeetCodeTemplateSettings } from "../settings";
+import { getSiteConfig } from "../sites";
+import { extractImageUrls, imageFileName, type ImageLinks } from "./descriptionImages";
+
+export interface ImageStoreHost {
+  app: App;
+  settings: LeetCodeTemplateSettings;
+  ensureFolder(path: string): Promise<void>;
+}
+
+/**
+ * Downloads the images of a problem description into the vault: the configured folder,
+ * or wherever Obsidian puts attachments for the note. An image already in the vault
+ * (under its URL-derived name) is reused, so shared images are stored once.
+ */
+export class DescriptionImageStore {
+  constructor(private readonly plugin: ImageStoreHost) {}
+
+  /**
+   * Embeds for the description images of a note at `notePath` (which may not exist yet).
+   * Images that fail to download are left out and keep their LeetCode URL; with
+   * `download` off, so is every image not already in the vault.
+   */
+  async localize(
+    metadata: QuestionMetadata,
+    notePath: string,
+    download = true
+  ): Promise<ImageLinks> {
+    const links: ImageLinks = new Map();
+    if (!this.plugin.settings.downloadImages || !metadata.content) return links;
+
+    const { vault, fileManager } = this.plugin.app;
+    const urls = extractImageUrls(metadata.content, getSiteConfig(metadata.site).origin);
+    if (urls.length === 0) return links;
+    const stored = new Map(vault.getFiles().map((file) => [file.name, file]));
+
+    for (const url of urls) {
+      const name = imageFileName(url);
+      let file: TFile | undefined = stored.get(name);
+      if (!file) {
+        if (!download) continue;
+        const data = await downloadAsset(url).catch(() => null);
+        if (!data) continue;
+        file = await vault.createBinary(await this.targetPath(name, notePath), data);
+        stored.set(name, file);
+      }
+      links.set(url, `!${fileManager.generateMarkdownLink(file, notePath)}`);
+    }
+    return links;
+  }
+
+  private async targetPath(name: string, notePath: string): Promise<string> {
+    const folder = this.plugin.settings.imageFolder.trim();
+    if (!folder) {
+      return this.plugin.app.fileManager.getAvailablePathForAttachment(name, notePath);
+    }
+    const normalized = normalizePath(folder);
+    await this.plugin.ensureFolder(normalized);
+    return normalizePath(`${normalized}/${name}`);
+  }
+}
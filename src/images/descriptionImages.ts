@@ -0,0 +1,71 @@
+/** Description images — no Obsidian imports (agent-runnable checks). */
+
+/** Absolute image URL → embed of the downloaded copy (`![[tree1-5f3a9c1e.jpg]]`). */
+export type ImageLinks = Map<string, string>;
+
+const IMG_TAG = /<img\b[^>]*?\bsrc\s*=\s*(["'])(.*?)\1[^>]*>/gi;
+const MARKDOWN_IMAGE = /!\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+const IMAGE_EXTENSIONS = new Set(["png", "jpg", "jpeg", "gif", "svg", "webp", "bmp"]);
+
+/** `//assets…` and `/uploads/…` sources as absolute URLs; data URIs and junk → null. */
+export function absoluteImageUrl(src: string, origin: string): string | null {
+  const trimmed = src.trim().replace(/&amp;/g, "&");
+  if (trimmed.startsWith("//")) return `https:${trimmed}`;
+  if (/^https?:\/\//i.test(trimmed)) return trimmed;
+  if (trimmed.startsWith("/")) return `${origin}${trimmed}`;
+  return null;
+}
+
+/** Unique absolute URLs of the `<img>` tags in the problem's HTML, in order. */
+export function extractImageUrls(html: string, origin: string): string[] {
+  const urls = new Set<string>();
+  for (const match of html.matchAll(IMG_TAG)) {
+    const url = absoluteImageUrl(match[2] ?? "", origin);
+    if (url) urls.add(url);
+  }
+  return [...urls];
+}
+
+/**
+ * `tree1-5f3a9c1e.jpg`: the original name plus a hash of the URL. The same image always
+ * gets the same name, so problems that share it share one file.
+ */
+export function imageFileName(url: string): string {
+  const path = url.replace(/[?#].*$/, "");
+  let base = path.slice(path.lastIndexOf("/") + 1);
+  try {
+    base = decodeURIComponent(base);
+  } catch {
+    // Keep the raw name.
+  }
+  const dot = base.lastIndexOf(".");
+  const extension = dot > 0 ? base.slice(dot + 1).toLowerCase() : "";
+  const stem = (dot > 0 ? base.slice(0, dot) : base)
+    .replace(/[^\w-]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40);
+  const ext = IMAGE_EXTENSIONS.has(extension) ? extension : "png";
+  return `${stem || "image"}-${hashUrl(url)}.${ext}`;
+}
+
+/** Point Markdown images and leftover `<img>` tags at the downloaded copies. */
+export function replaceImageLinks(markdown: string, links: ImageLinks, origin: string): string {
+  if (links.size === 0) return markdown;
+  const embed = (src: string, original: string) => {
+    const url = absoluteImageUrl(src, origin);
+    return (url && links.get(url)) ?? original;
+  };
+  return markdown
+    .replace(MARKDOWN_IMAGE, (original, src: string) => embed(src, original))
+    .replace(IMG_TAG, (original, _quote: string, src: string) => embed(src, original));
+}
+
+/** FNV-1a, 32 bits as 8 hex digits. */
+function hashUrl(url: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < url.length; i++) {
+    hash ^= url.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
@@ -0,0 +1,38 @@
+/** Contest and list index notes — no Obsidian imports (agent-runnable checks). */
+
+import { hasSection, insertSection, replaceSection } from "../update/noteSections";
+
+/** A section of an index note that is rewritten on every import. */
+export interface IndexSection {
+  /** Heading for a new section, in the note language. */
+  header: string;
+  /** The heading in every language, to find the section again. */
+  headers: string[];
+  body: string;
+}
+
+/** An index note's title as a file name: characters not allowed in paths are dropped. */
+export function indexFileName(index: { title: string; slug: string }): string {
+  const name = index.title.replace(/[<>:"/\\|?*#^[\]]+/g, "").trim();
+  return name || index.slug;
+}
+
+/** Body of a new index note: the title, then each section. */
+export function formatIndexNote(title: string, sections: IndexSection[]): string {
+  return [
+    `# ${title}`,
+    "",
+    ...sections.flatMap((section) => [`## ${section.header}`, section.body, ""])
+  ].join("\n");
+}
+
+/** Replace the generated sections of an existing index note; missing ones are appended. */
+export function refreshIndexSections(content: string, sections: IndexSection[]): string {
+  let next = content;
+  for (const { header, headers, body } of sections) {
+    next = hasSection(next, headers)
+      ? (replaceSection(next, headers, body) ?? next)
+      : insertSection(next, header, body);
+  }
+  return next;
+}
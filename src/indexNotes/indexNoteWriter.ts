@@ -0,0 +1,28 @@
+import { type App, stringifyYaml, type TFile } from "obsidian";
+
+import { formatIndexNote, type IndexSection, refreshIndexSections } from "./indexNote";
+
+export interface IndexNote {
+  title: string;
+  properties: Record<string, unknown>;
+  sections: IndexSection[];
+}
+
+/**
+ * Create the index note at `path`, or on a re-run rewrite only its generated sections
+ * and properties, keeping whatever the user added to it.
+ */
+export async function writeIndexNote(app: App, path: string, note: IndexNote): Promise<TFile> {
+  const { vault, fileManager } = app;
+  const existing = vault.getFileByPath(path);
+  if (!existing) {
+    const frontmatter = `---\n${stringifyYaml(note.properties)}---`;
+    return vault.create(path, `${frontmatter}\n${formatIndexNote(note.title, note.sections)}`);
+  }
+
+  await vault.process(existing, (content) => refreshIndexSections(content, note.sections));
+  await fileManager.processFrontMatter(existing, (frontmatter: Record<string, unknown>) => {
+    Object.assign(frontmatter, note.properties);
+  });
+  return existing;
+}
@@ -1,4 +1,14 @@
-import { requestUrl, type RequestUrlParam } from "obsidian";
+import type { RequestUrlParam } from "obsidian";
+
+import { RequestClient, type RequestClientOptions, sleep } from "./requestClient";
+import { getSiteConfig, type LeetCodeSite } from "./sites";
+import {
+  isBeforeFilterRange,
+  matchesSubmissionFilter,
+  type SubmissionFilter
+} from "./solutions/submissionFilter";
+
+export { isRateLimitedError, RateLimitedError } from "./requestClient";
 
 type QuestionQueryResponse = {
   data?: {
@@ -6,24 +16,118 @@ type QuestionQueryResponse = {
       questionId?: string;
       questionFrontendId?: string;
       title?: string;
+      translatedTitle?: string | null;
       titleSlug?: string;
       difficulty?: string;
       content?: string;
+      translatedContent?: string | null;
       similarQuestions?: unknown;
       topicTags?: Array<{ name?: string | null; slug?: string | null }>;
+      stats?: string | null;
+      status?: string | null;
+      exampleTestcases?: string | null;
+      sampleTestCase?: string | null;
+      metaData?: string | null;
+      codeSnippets?: RawCodeSnippet[] | null;
+      hints?: Array<string | null> | null;
+    };
+  };
+};
+
+type RawCodeSnippet = {
+  lang?: string | null;
+  langSlug?: string | null;
+  code?: string | null;
+};
+
+type ProblemsetQuestion = {
+  frontendQuestionId?: string;
+  title?: string;
+  titleCn?: string | null;
+  titleSlug?: string;
+  difficulty?: string;
+  status?: string | null;
+  paidOnly?: boolean;
+  topicTags?: Array<{ name?: string | null; nameTranslated?: string | null }>;
+};
+
+type ProblemsetResponse = {
+  data?: {
+    problemsetQuestionList?: {
+      total?: number;
+      hasMore?: boolean;
+      questions?: ProblemsetQuestion[];
     };
   };
 };
 
-type ProblemsListResponse = {
-  stat_status_pairs?: Array<{
-    stat?: { frontend_question_id?: string | number; question__title_slug?: string };
-  }>;
+type DailyRecord = {
+  date?: string;
+  question?: {
+    frontendQuestionId?: string;
+    title?: string;
+    titleCn?: string | null;
+    titleSlug?: string;
+  };
+};
+
+type DailyChallengeResponse = {
+  data?: {
+    /** A single record on leetcode.com, a one-element list on leetcode.cn. */
+    activeDailyCodingChallengeQuestion?: DailyRecord | DailyRecord[] | null;
+  };
+};
+
+/** `/contest/api/info/<slug>/`; on leetcode.cn `title` is the translated one. */
+type ContestInfoResponse = {
+  contest?: {
+    title?: string;
+    title_slug?: string;
+    start_time?: number;
+    duration?: number;
+  } | null;
+  questions?: Array<{
+    title?: string;
+    title_slug?: string;
+    credit?: number;
+  }> | null;
+};
+
+type StudyPlanResponse = {
+  data?: {
+    studyPlanV2Detail?: {
+      slug?: string;
+      name?: string;
+      planSubGroups?: Array<{
+        name?: string;
+        questions?: ProblemsetQuestion[] | null;
+      } | null> | null;
+    } | null;
+  };
+};
+
+type FavoriteListResponse = {
+  data?: { favoriteDetailV2?: { name?: string } | null };
+};
+
+type ContestHistoryResponse = {
+  data?: {
+    userContestRankingHistory?: Array<{
+      attended?: boolean;
+      ranking?: number | null;
+      problemsSolved?: number | null;
+      totalProblems?: number | null;
+      finishTimeInSeconds?: number | null;
+      contest?: { title?: string | null } | null;
+    } | null> | null;
+  };
 };
 
 type SubmissionListResponse = {
   data?: {
     questionSubmissionList?: {
+      lastKey?: string | null;
+      hasNext?: boolean;
       submissions?: Array<{
         id?: string | number;
         statusDisplay?: string;
@@ -36,24 +140,37 @@ type SubmissionListResponse = {
   };
 };
 
+type SubmissionDetails = NonNullable<
+  NonNullable<SubmissionDetailsResponse["data"]>["submissionDetails"]
+>;
+
 type SubmissionDetailsResponse = {
   data?: {
     submissionDetails?: {
       id?: string | number;
       code?: string;
-      lang?: { name?: string };
+      lang?: { name?: string } | string;
       runtime?: string;
       runtimeDisplay?: string;
+      runtimePercentile?: number | null;
       memory?: string;
       memoryDisplay?: string;
+      memoryPercentile?: number | null;
       timestamp?: number;
-    };
+    } & SubmissionOutput & { outputDetail?: SubmissionOutput | null };
   };
 };
 
-const QUESTION_QUERY = `
-  query questionData($titleSlug: String!) {
-    question(titleSlug: $titleSlug) {
+/** Failure details; top-level on leetcode.com, under `outputDetail` on leetcode.cn. */
+type SubmissionOutput = {
+  lastTestcase?: string | null;
+  codeOutput?: string | null;
+  expectedOutput?: string | null;
+  runtimeError?: string | null;
+  compileError?: string | null;
+};
+
+const QUESTION_FIELDS = `
       questionId
       questionFrontendId
       title
@@ -65,26 +182,87 @@ const QUESTION_QUERY = `
         name
         slug
       }
-    }
-  }
-`;
+      stats
+      status
+      exampleTestcases
+      sampleTestCase
+      metaData
+      codeSnippets {
+        lang
+        langSlug
+        code
+      }
+      hints`;
 
-const SUBMISSION_LIST_QUERY = `
-  query submissionList($offset: Int!, $limit: Int!, $questionSlug: String!) {
-    questionSubmissionList(offset: $offset, limit: $limit, questionSlug: $questionSlug) {
-      submissions {
+const SUBMISSION_FIELDS = `
         id
         statusDisplay
         lang
         runtime
         memory
-        timestamp
+        timestamp`;
+
+const PROBLEM_FIELDS = `
+        title
+        titleSlug
+        difficulty
+        status`;
+
+const CONTEST_HISTORY_FIELDS = `
+      attended
+      ranking
+      problemsSolved
+      totalProblems
+      finishTimeInSeconds
+      contest {
+        title
+      }`;
+
+/**
+ * Query shapes per site. leetcode.cn names several fields differently; aliases keep
+ * the response shape identical so one parser handles both.
+ */
+const QUERIES: Record<
+  LeetCodeSite,
+  {
+    question: string;
+    submissionList: string;
+    submissionDetail: string;
+    problemset: string;
+    daily: string;
+    contestHistory: string;
+    studyPlan: string;
+    favoriteList: string;
+  }
+> = {
+  com: {
+    question: `
+  query questionData($titleSlug: String!) {
+    question(titleSlug: $titleSlug) {${QUESTION_FIELDS}
+    }
+  }
+`,
+    submissionList: `
+  query submissionList(
+    $offset: Int!
+    $limit: Int!
+    $lastKey: String
+    $questionSlug: String!
+  ) {
+    questionSubmissionList(
+      offset: $offset
+      limit: $limit
+      lastKey: $lastKey
+      questionSlug: $questionSlug
+    ) {
+      lastKey
+      hasNext
+      submissions {${SUBMISSION_FIELDS}
       }
     }
   }
-`;
-
-const SUBMISSION_DETAIL_QUERY = `
+`,
+    submissionDetail: `
   query submissionDetails($submissionId: Int!) {
     submissionDetails(submissionId: $submissionId) {
       id
@@ -95,12 +273,217 @@ const SUBMISSION_DETAIL_QUERY = `
       }
       runtime
       runtimeDisplay
+      runtimePercentile
       memory
       memoryDisplay
+      memoryPercentile
       timestamp
+      lastTestcase
+      codeOutput
+      expectedOutput
+      runtimeError
+      compileError
     }
   }
-`;
+`,
+    problemset: `
+  query problemsetQuestionList(
+    $categorySlug: String
+    $limit: Int
+    $skip: Int
+    $filters: QuestionListFilterInput
+  ) {
+    problemsetQuestionList: questionList(
+      categorySlug: $categorySlug
+      limit: $limit
+      skip: $skip
+      filters: $filters
+    ) {
+      total: totalNum
+      hasMore
+      questions: data {
+        frontendQuestionId: questionFrontendId${PROBLEM_FIELDS}
+        paidOnly: isPaidOnly
+        topicTags {
+          name
+        }
+      }
+    }
+  }
+`,
+    daily: `
+  query questionOfToday {
+    activeDailyCodingChallengeQuestion {
+      date
+      question {
+        frontendQuestionId: questionFrontendId
+        title
+        titleSlug
+      }
+    }
+  }
+`,
+    contestHistory: `
+  query userContestRankingHistory($username: String!) {
+    userContestRankingHistory(username: $username) {${CONTEST_HISTORY_FIELDS}
+    }
+  }
+`,
+    studyPlan: `
+  query studyPlanDetail($planSlug: String!) {
+    studyPlanV2Detail(planSlug: $planSlug) {
+      slug
+      name
+      planSubGroups {
+        name
+        questions {
+          frontendQuestionId: questionFrontendId${PROBLEM_FIELDS}
+          paidOnly
+        }
+      }
+    }
+  }
+`,
+    favoriteList: `
+  query favoriteDetail($favoriteSlug: String!) {
+    favoriteDetailV2(favoriteSlug: $favoriteSlug) {
+      name
+    }
+  }
+`
+  },
+  cn: {
+    question: `
+  query questionData($titleSlug: String!) {
+    question(titleSlug: $titleSlug) {${QUESTION_FIELDS}
+      translatedTitle
+      translatedContent
+    }
+  }
+`,
+    submissionList: `
+  query submissionList(
+    $offset: Int!
+    $limit: Int!
+    $lastKey: String
+    $questionSlug: String!
+  ) {
+    questionSubmissionList: submissionList(
+      offset: $offset
+      limit: $limit
+      lastKey: $lastKey
+      questionSlug: $questionSlug
+    ) {
+      lastKey
+      hasNext
+      submissions {${SUBMISSION_FIELDS}
+      }
+    }
+  }
+`,
+    submissionDetail: `
+  query submissionDetail($submissionId: ID!) {
+    submissionDetails: submissionDetail(submissionId: $submissionId) {
+      id
+      code
+      lang {
+        name
+        verboseName
+      }
+      runtime
+      runtimePercentile
+      memory
+      memoryPercentile
+      timestamp
+      outputDetail {
+        lastTestcase
+        codeOutput
+        expectedOutput
+        runtimeError
+        compileError
+      }
+    }
+  }
+`,
+    problemset: `
+  query problemsetQuestionList(
+    $categorySlug: String
+    $limit: Int
+    $skip: Int
+    $filters: QuestionListFilterInput
+  ) {
+    problemsetQuestionList(
+      categorySlug: $categorySlug
+      limit: $limit
+      skip: $skip
+      filters: $filters
+    ) {
+      total
+      hasMore
+      questions {
+        frontendQuestionId${PROBLEM_FIELDS}
+        titleCn
+        paidOnly
+        topicTags {
+          name
+          nameTranslated: translatedName
+        }
+      }
+    }
+  }
+`,
+    daily: `
+  query questionOfToday {
+    activeDailyCodingChallengeQuestion: todayRecord {
+      date
+      question {
+        frontendQuestionId: questionFrontendId
+        title
+        titleCn: translatedTitle
+        titleSlug
+      }
+    }
+  }
+`,
+    contestHistory: `
+  query userContestRankingHistory($username: String!) {
+    userContestRankingHistory(userSlug: $username) {${CONTEST_HISTORY_FIELDS}
+    }
+  }
+`,
+    studyPlan: `
+  query studyPlanDetail($planSlug: String!) {
+    studyPlanV2Detail(planSlug: $planSlug) {
+      slug
+      name
+      planSubGroups {
+        name
+        questions {
+          frontendQuestionId: questionFrontendId${PROBLEM_FIELDS}
+          titleCn: translatedTitle
+          paidOnly
+        }
+      }
+    }
+  }
+`,
+    favoriteList: `
+  query favoriteDetail($favoriteSlug: String!) {
+    favoriteDetailV2(favoriteSlug: $favoriteSlug) {
+      name
+    }
+  }
+`
+  }
+};
+
+const PROBLEMSET_PAGE_SIZE = 100;
+const SUBMISSION_PAGE_SIZE = 20;
+/** Stop paging after this many submission pages (1000 submissions) whatever the filters. */
+const MAX_SUBMISSION_PAGES = 50;
+const ACCEPTED = "Accepted";
+/** The catalogue is a few thousand rows; large pages keep it to a handful of requests. */
+const CATALOGUE_PAGE_SIZE = 1000;
 
 const WHOAMI_QUERY = `
   query {
@@ -111,6 +494,27 @@ const WHOAMI_QUERY = `
   }
 `;
 
+const QUESTION_STATUS_QUERY = `
+  query questionStatus($titleSlug: String!) {
+    question(titleSlug: $titleSlug) {
+      status
+    }
+  }
+`;
+
+const client = new RequestClient();
+
+/** Point the shared LeetCode request client at live plugin settings. */
+export function configureRequestClient(getOptions: () => RequestClientOptions): void {
+  client.configure(getOptions);
+}
+
+/** Cookie header plus the site it was issued by; every API call needs both. */
+export interface LeetCodeSession {
+  cookie: string;
+  site: LeetCodeSite;
+}
+
 export class SessionExpiredError extends Error {
   constructor(message = "Session expired") {
     super(message);
@@ -143,6 +547,7 @@ export interface SimilarQuestion {
 }
 
 export interface QuestionMetadata {
+  site?: LeetCodeSite;
   id?: string;
   number?: string;
   title: string;
@@ -151,6 +556,131 @@ export interface QuestionMetadata {
   tags: string[];
   content?: string;
   similarQuestions: SimilarQuestion[];
+  /** Percent of accepted submissions, e.g. 53.2. */
+  acceptanceRate?: number;
+  /** Signed-in user's progress as reported by LeetCode: "ac", "notac" or null. */
+  status?: string | null;
+  /** Example inputs, one line per parameter, cases one after another. */
+  exampleTestcases?: string;
+  /** JSON describing the function signature (name, parameter and return types). */
+  metaData?: string;
+  /** Code templates (function signatures) per language, as shown in the LeetCode editor. */
+  codeSnippets?: CodeSnippet[];
+  /** Hints as HTML, in the order LeetCode reveals them. */
+  hints?: string[];
+}
+
+export interface CodeSnippet {
+  /** Display name, e.g. `Python3`, `C++`. */
+  lang: string;
+  /** Language slug, e.g. `python3`, `cpp`. */
+  langSlug: string;
+  code: string;
+}
+
+export interface ProblemSummary {
+  number: string;
+  title: string;
+  slug: string;
+  difficulty: string;
+  tags?: string[];
+  paidOnly?: boolean;
+}
+
+/** A submission of any verdict, as listed in the problem's submission history. */
+export interface SubmissionAttempt {
+  id: string;
+  /** Verdict as displayed by LeetCode, e.g. "Accepted", "Wrong Answer". */
+  status: string;
+  lang?: string;
+  runtime?: string;
+  memory?: string;
+  timestamp?: number;
+  code?: string;
+  testcase?: { input?: string; expected?: string; output?: string; error?: string };
+}
+
+type SubmissionListItem = Omit<SubmissionAttempt, "code" | "testcase">;
+
+/** Outcome of a submission sent from the plugin, once LeetCode has judged it. */
+export interface SubmissionVerdict {
+  submissionId: string;
+  /** Verdict as displayed by LeetCode, e.g. "Accepted", "Time Limit Exceeded". */
+  status: string;
+  accepted: boolean;
+  runtime?: string;
+  memory?: string;
+  runtimePercentile?: number;
+  memoryPercentile?: number;
+  totalCorrect?: number;
+  totalTestcases?: number;
+  /** Failing (or last executed) test case; empty for accepted submissions. */
+  testcase?: SubmissionAttempt["testcase"];
+}
+
+/** Response of `/submissions/detail/<id>/check/`; fields appear once `state` is SUCCESS. */
+type SubmissionCheckResponse = {
+  state?: string;
+  status_code?: number;
+  status_msg?: string;
+  status_runtime?: string;
+  status_memory?: string;
+  runtime_percentile?: number | null;
+  memory_percentile?: number | null;
+  total_correct?: number | null;
+  total_testcases?: number | null;
+  last_testcase?: string;
+  expected_output?: string;
+  code_output?: string | string[];
+  compile_error?: string;
+  full_compile_error?: string;
+  runtime_error?: string;
+  full_runtime_error?: string;
+};
+
+/** LeetCode's status code for Accepted in the check response. */
+const ACCEPTED_CODE = 10;
+const VERDICT_POLL_INTERVAL_MS = 1500;
+const VERDICT_MAX_WAIT_MS = 60_000;
+
+export interface DailyChallenge {
+  /** Challenge date `YYYY-MM-DD` as published by LeetCode. */
+  date: string;
+  number: string;
+  title: string;
+  slug: string;
+}
+
+export interface ContestProblem {
+  title: string;
+  slug: string;
+  /** Points awarded for solving the problem during the contest. */
+  credit: number;
+}
+
+export interface ContestInfo {
+  slug: string;
+  title: string;
+  /** Unix seconds. */
+  startTime: number;
+  /** Length in seconds. */
+  duration: number;
+  problems: ContestProblem[];
+}
+
+export interface StudyPlan {
+  slug: string;
+  name: string;
+  /** Sections of the plan (e.g. "Array / String") with their problems, in plan order. */
+  groups: Array<{ name: string; problems: ProblemSummary[] }>;
+}
+
+/** The user's result in a contest they took part in. */
+export interface ContestRanking {
+  ranking: number;
+  problemsSolved: number;
+  totalProblems: number;
+  finishTimeInSeconds: number;
 }
 
 export interface SubmissionSolution {
@@ -159,27 +689,32 @@ export interface SubmissionSolution {
   lang?: string;
   runtime?: string;
   memory?: string;
+  /** Share of accepted submissions in the same language that this one beats, 0–100. */
+  runtimePercentile?: number;
+  memoryPercentile?: number;
   timestamp?: number;
+  /** Big-O notes added by the plugin (estimated or entered on import), not by LeetCode. */
+  timeComplexity?: string;
+  spaceComplexity?: string;
 }
 
 export async function fetchQuestion(
   titleSlug: string,
-  cookie: string
+  session: LeetCodeSession
 ): Promise<QuestionMetadata> {
-  const headers = buildHeaders({ titleSlug, cookie });
+  const headers = buildHeaders({ titleSlug, session });
 
   const request: RequestUrlParam = {
-    url: "https://leetcode.com/graphql",
+    url: getSiteConfig(session.site).graphqlUrl,
     method: "POST",
     body: JSON.stringify({
-      query: QUESTION_QUERY,
+      query: QUERIES[session.site].question,
       variables: { titleSlug }
     }),
-    headers,
-    throw: false
+    headers
   };
 
-  const response = await requestUrl(request);
+  const response = await client.request(request);
 
   if (response.status === 401 || response.status === 403) {
     throw new SessionExpiredError();
@@ -193,7 +728,7 @@ export async function fetchQuestion(
   const payload = ensureObject<QuestionQueryResponse>(rawPayload, { data: {} });
   const question = payload.data?.question;
   if (!question) {
-    if (cookie.trim()) {
+    if (session.cookie.trim()) {
       throw new SessionExpiredError();
     }
     throw new Error("Не удалось получить данные задачи (возможно, устаревший cookie)");
@@ -204,17 +739,65 @@ export async function fetchQuestion(
     [];
 
   return {
+    site: session.site,
     id: question.questionId ?? undefined,
     number: question.questionFrontendId ?? question.questionId ?? undefined,
-    title: question.title ?? titleSlug,
+    title: question.translatedTitle || question.title || titleSlug,
     slug: question.titleSlug ?? titleSlug,
     difficulty: question.difficulty ?? "Unknown",
     tags,
-    content: question.content ?? "",
-    similarQuestions: parseSimilarQuestions(question.similarQuestions)
+    content: question.translatedContent || question.content || "",
+    similarQuestions: parseSimilarQuestions(question.similarQuestions),
+    acceptanceRate: parseAcceptanceRate(question.stats),
+    status: question.status ?? null,
+    exampleTestcases: question.exampleTestcases || question.sampleTestCase || undefined,
+    metaData: question.metaData || undefined,
+    codeSnippets: parseCodeSnippets(question.codeSnippets),
+    hints: (question.hints ?? []).filter((hint): hint is string => Boolean(hint?.trim()))
   };
 }
 
+/**
+ * The signed-in user's status for a problem (`ac`, `notac` or null), without the rest
+ * of the question; cached metadata leaves it out because it changes with every solve.
+ */
+export async function fetchQuestionStatus(
+  titleSlug: string,
+  session: LeetCodeSession
+): Promise<string | null> {
+  const response = await client.request({
+    url: getSiteConfig(session.site).graphqlUrl,
+    method: "POST",
+    body: JSON.stringify({ query: QUESTION_STATUS_QUERY, variables: { titleSlug } }),
+    headers: buildHeaders({ titleSlug, session })
+  });
+
+  if (response.status === 401 || response.status === 403) {
+    throw new SessionExpiredError();
+  }
+  if (response.status !== 200) {
+    throw new Error(`LeetCode вернул статус ${response.status}`);
+  }
+
+  const rawPayload: unknown = response.json ?? JSON.parse(response.text);
+  const payload = ensureObject<QuestionQueryResponse>(rawPayload, { data: {} });
+  return payload.data?.question?.status ?? null;
+}
+
+/** A binary asset such as a description image; null when it is not available. */
+export async function downloadAsset(url: string): Promise<ArrayBuffer | null> {
+  const response = await client.request({ url, method: "GET" });
+  return response.status === 200 ? response.arrayBuffer : null;
+}
+
+function parseCodeSnippets(raw: RawCodeSnippet[] | null | undefined): CodeSnippet[] {
+  return (raw ?? []).flatMap((snippet) =>
+    snippet?.langSlug && snippet.code
+      ? [{ lang: snippet.lang || snippet.langSlug, langSlug: snippet.langSlug, code: snippet.code }]
+      : []
+  );
+}
+
 function parseSimilarQuestions(raw: unknown): SimilarQuestion[] {
   if (!raw) return [];
   try {
@@ -228,13 +811,25 @@ function parseSimilarQuestions(raw: unknown): SimilarQuestion[] {
   }
 }
 
-export async function fetchWhoami(cookie: string): Promise<WhoamiResult | null> {
-  const response = await requestUrl({
-    url: "https://leetcode.com/graphql",
+/** `stats` is a JSON string such as `{"acRate": "53.2%", ...}`. */
+function parseAcceptanceRate(raw: string | null | undefined): number | undefined {
+  if (!raw) return undefined;
+  try {
+    const stats = ensureObject<{ acRate?: string | number }>(JSON.parse(raw), {});
+    const rate = parseFloat(String(stats.acRate ?? ""));
+    return Number.isFinite(rate) ? Math.round(rate * 10) / 10 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function fetchWhoami(session: LeetCodeSession): Promise<WhoamiResult | null> {
+  const { origin, graphqlUrl } = getSiteConfig(session.site);
+  const response = await client.request({
+    url: graphqlUrl,
     method: "POST",
     body: JSON.stringify({ query: WHOAMI_QUERY }),
-    headers: buildHeaders({ titleSlug: "", cookie, referer: "https://leetcode.com/" }),
-    throw: false
+    headers: buildHeaders({ titleSlug: "", session, referer: `${origin}/` })
   });
 
   if (response.status === 401 || response.status === 403) {
@@ -255,135 +850,600 @@ export async function fetchWhoami(cookie: string): Promise<WhoamiResult | null>
   };
 }
 
-export async function fetchSlugByNumber(
-  frontendQuestionId: string,
-  cookie: string
+/**
+ * The full problem list with topic tags, read through the paginated problemset query
+ * (the `/api/problems/all/` listing has no tags).
+ */
+export async function fetchProblemCatalogue(
+  session: LeetCodeSession
+): Promise<ProblemSummary[]> {
+  const questions = await fetchProblemset(session, {}, CATALOGUE_PAGE_SIZE);
+  return questions
+    .map(toProblemSummary)
+    .filter((problem): problem is ProblemSummary => Boolean(problem))
+    .sort((a, b) => Number(a.number) - Number(b.number));
+}
+
+/** All problems the signed-in user has at least one accepted submission for. */
+export async function fetchSolvedProblems(session: LeetCodeSession): Promise<ProblemSummary[]> {
+  const questions = await fetchProblemset(session, { status: "AC" }, PROBLEMSET_PAGE_SIZE);
+  return (
+    questions
+      // The filter is applied server-side, but anonymous sessions silently ignore it.
+      .filter((question) => question.status?.toLowerCase() === "ac")
+      .map(toProblemSummary)
+      .filter((problem): problem is ProblemSummary => Boolean(problem))
+  );
+}
+
+/** Problems of a LeetCode problem list (favorites), in list order. */
+export async function fetchProblemList(
+  listId: string,
+  session: LeetCodeSession
+): Promise<ProblemSummary[]> {
+  const questions = await fetchProblemset(session, { listId }, PROBLEMSET_PAGE_SIZE);
+  return questions
+    .map(toProblemSummary)
+    .filter((problem): problem is ProblemSummary => Boolean(problem));
+}
+
+/** The name of a problem list; null when LeetCode does not return one. */
+export async function fetchProblemListName(
+  listId: string,
+  session: LeetCodeSession
 ): Promise<string | null> {
-  const response = await requestUrl({
-    url: "https://leetcode.com/api/problems/all/",
+  const { origin, graphqlUrl } = getSiteConfig(session.site);
+  const response = await client.request({
+    url: graphqlUrl,
+    method: "POST",
+    body: JSON.stringify({
+      query: QUERIES[session.site].favoriteList,
+      variables: { favoriteSlug: listId }
+    }),
+    headers: buildHeaders({ titleSlug: "", session, referer: `${origin}/problem-list/${listId}/` })
+  });
+
+  if (response.status === 401 || response.status === 403) {
+    throw new SessionExpiredError();
+  }
+  if (response.status !== 200) {
+    throw new Error(`LeetCode вернул статус ${response.status}`);
+  }
+
+  const rawPayload: unknown = response.json ?? JSON.parse(response.text);
+  const payload = ensureObject<FavoriteListResponse>(rawPayload, {});
+  return payload.data?.favoriteDetailV2?.name?.trim() || null;
+}
+
+/** A study plan such as `top-interview-150`: its name and problems per section. */
+export async function fetchStudyPlan(
+  planSlug: string,
+  session: LeetCodeSession
+): Promise<StudyPlan> {
+  const { origin, graphqlUrl } = getSiteConfig(session.site);
+  const response = await client.request({
+    url: graphqlUrl,
+    method: "POST",
+    body: JSON.stringify({ query: QUERIES[session.site].studyPlan, variables: { planSlug } }),
+    headers: buildHeaders({ titleSlug: "", session, referer: `${origin}/studyplan/${planSlug}/` })
+  });
+
+  if (response.status === 401 || response.status === 403) {
+    throw new SessionExpiredError();
+  }
+  if (response.status !== 200) {
+    throw new Error(`LeetCode вернул статус ${response.status}`);
+  }
+
+  const rawPayload: unknown = response.json ?? JSON.parse(response.text);
+  const payload = ensureObject<StudyPlanResponse>(rawPayload, {});
+  const plan = payload.data?.studyPlanV2Detail;
+  if (!plan?.name) {
+    throw new Error(`План ${planSlug} не найден`);
+  }
+
+  return {
+    slug: plan.slug || planSlug,
+    name: plan.name,
+    groups: (plan.planSubGroups ?? []).flatMap((group) =>
+      group
+        ? [
+            {
+              name: group.name ?? "",
+              problems: (group.questions ?? [])
+                .map(toProblemSummary)
+                .filter((problem): problem is ProblemSummary => Boolean(problem))
+            }
+          ]
+        : []
+    )
+  };
+}
+
+async function fetchProblemset(
+  session: LeetCodeSession,
+  filters: Record<string, string>,
+  pageSize: number
+): Promise<ProblemsetQuestion[]> {
+  const { origin, graphqlUrl } = getSiteConfig(session.site);
+  const headers = buildHeaders({ titleSlug: "", session, referer: `${origin}/problemset/` });
+  const results: ProblemsetQuestion[] = [];
+
+  for (let skip = 0; ; skip += pageSize) {
+    const response = await client.request({
+      url: graphqlUrl,
+      method: "POST",
+      body: JSON.stringify({
+        query: QUERIES[session.site].problemset,
+        variables: { categorySlug: "", limit: pageSize, skip, filters }
+      }),
+      headers
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      throw new SessionExpiredError();
+    }
+    if (response.status !== 200) {
+      throw new Error(`LeetCode вернул статус ${response.status}`);
+    }
+
+    const rawPayload: unknown = response.json ?? JSON.parse(response.text);
+    const payload = ensureObject<ProblemsetResponse>(rawPayload, {});
+    const list = payload.data?.problemsetQuestionList;
+    const questions = list?.questions ?? [];
+    results.push(...questions);
+
+    const total = list?.total ?? 0;
+    if (!list?.hasMore || questions.length === 0 || skip + questions.length >= total) {
+      break;
+    }
+  }
+
+  return results;
+}
+
+function toProblemSummary(question: ProblemsetQuestion): ProblemSummary | null {
+  if (!question?.titleSlug) return null;
+  return {
+    number: question.frontendQuestionId ?? "",
+    title: question.titleCn || question.title || question.titleSlug,
+    slug: question.titleSlug,
+    difficulty: normalizeDifficulty(question.difficulty),
+    tags: (question.topicTags ?? [])
+      .map((tag) => tag?.nameTranslated || tag?.name)
+      .filter((name): name is string => Boolean(name)),
+    paidOnly: Boolean(question.paidOnly)
+  };
+}
+
+/** leetcode.cn reports difficulty in upper case ("EASY"). */
+function normalizeDifficulty(raw: string | undefined): string {
+  if (!raw) return "Unknown";
+  return raw.charAt(0).toUpperCase() + raw.slice(1).toLowerCase();
+}
+
+export async function fetchDailyChallenge(session: LeetCodeSession): Promise<DailyChallenge> {
+  const { origin, graphqlUrl } = getSiteConfig(session.site);
+  const response = await client.request({
+    url: graphqlUrl,
+    method: "POST",
+    body: JSON.stringify({ query: QUERIES[session.site].daily, variables: {} }),
+    headers: buildHeaders({ titleSlug: "", session, referer: `${origin}/problemset/` })
+  });
+
+  if (response.status === 401 || response.status === 403) {
+    throw new SessionExpiredError();
+  }
+  if (response.status !== 200) {
+    throw new Error(`LeetCode вернул статус ${response.status}`);
+  }
+
+  const rawPayload: unknown = response.json ?? JSON.parse(response.text);
+  const payload = ensureObject<DailyChallengeResponse>(rawPayload, {});
+  const raw = payload.data?.activeDailyCodingChallengeQuestion;
+  const record = Array.isArray(raw) ? raw[0] : raw;
+  const question = record?.question;
+  if (!record?.date || !question?.titleSlug) {
+    throw new Error("Не удалось получить задачу дня");
+  }
+
+  return {
+    date: record.date,
+    number: question.frontendQuestionId ?? "",
+    title: question.titleCn || question.title || question.titleSlug,
+    slug: question.titleSlug
+  };
+}
+
+/** Title, schedule and problems of a contest, e.g. `weekly-contest-400`. */
+export async function fetchContest(
+  contestSlug: string,
+  session: LeetCodeSession
+): Promise<ContestInfo> {
+  const { origin } = getSiteConfig(session.site);
+  const response = await client.request({
+    url: `${origin}/contest/api/info/${contestSlug}/`,
     method: "GET",
-    headers: buildHeaders({ titleSlug: "", cookie }),
-    throw: false
+    headers: buildHeaders({ titleSlug: "", session, referer: `${origin}/contest/${contestSlug}/` })
   });
 
   if (response.status === 401 || response.status === 403) {
     throw new SessionExpiredError();
   }
+  if (response.status === 404) {
+    throw new Error(`Контест ${contestSlug} не найден`);
+  }
+  if (response.status !== 200) {
+    throw new Error(`LeetCode вернул статус ${response.status}`);
+  }
+
+  const rawPayload: unknown = response.json ?? JSON.parse(response.text);
+  const payload = ensureObject<ContestInfoResponse>(rawPayload, {});
+  const contest = payload.contest;
+  const problems = (payload.questions ?? []).flatMap((question) =>
+    question?.title_slug
+      ? [
+          {
+            title: question.title || question.title_slug,
+            slug: question.title_slug,
+            credit: Number(question.credit) || 0
+          }
+        ]
+      : []
+  );
+  if (!contest?.title || problems.length === 0) {
+    throw new Error(`Контест ${contestSlug} не найден`);
+  }
+
+  return {
+    slug: contest.title_slug || contestSlug,
+    title: contest.title,
+    startTime: Number(contest.start_time) || 0,
+    duration: Number(contest.duration) || 0,
+    problems
+  };
+}
 
+/** The user's rank in the contest titled `contestTitle`; null when they did not take part. */
+export async function fetchContestRanking(
+  username: string,
+  contestTitle: string,
+  session: LeetCodeSession
+): Promise<ContestRanking | null> {
+  const { origin, graphqlUrl } = getSiteConfig(session.site);
+  const response = await client.request({
+    // leetcode.cn serves contest rankings from a separate GraphQL endpoint.
+    url: session.site === "cn" ? `${origin}/graphql/noj-go/` : graphqlUrl,
+    method: "POST",
+    body: JSON.stringify({
+      query: QUERIES[session.site].contestHistory,
+      variables: { username }
+    }),
+    headers: buildHeaders({ titleSlug: "", session, referer: `${origin}/contest/` })
+  });
+
+  if (response.status === 401 || response.status === 403) {
+    throw new SessionExpiredError();
+  }
   if (response.status !== 200) {
-    return null;
+    throw new Error(`LeetCode вернул статус ${response.status}`);
   }
 
   const rawPayload: unknown = response.json ?? JSON.parse(response.text);
-  const payload = ensureObject<ProblemsListResponse>(rawPayload, {});
-  const items = payload.stat_status_pairs ?? [];
-  const target = items.find(
-    (item) => String(item?.stat?.frontend_question_id) === String(frontendQuestionId)
+  const payload = ensureObject<ContestHistoryResponse>(rawPayload, {});
+  const entry = (payload.data?.userContestRankingHistory ?? []).find(
+    (item) => item?.attended && item.contest?.title === contestTitle
   );
-  const slug = target?.stat?.question__title_slug;
-  return typeof slug === "string" && slug.trim() ? slug.trim() : null;
+  if (!entry?.ranking) return null;
+  return {
+    ranking: entry.ranking,
+    problemsSolved: entry.problemsSolved ?? 0,
+    totalProblems: entry.totalProblems ?? 0,
+    finishTimeInSeconds: entry.finishTimeInSeconds ?? 0
+  };
 }
 
 export async function fetchLatestAcceptedSolution(
   titleSlug: string,
-  cookie: string
+  session: LeetCodeSession,
+  filter: SubmissionFilter = {}
 ): Promise<SubmissionSolution | null> {
-  const solutions = await fetchAcceptedSolutions(titleSlug, cookie, { limit: 1 });
+  const solutions = await fetchAcceptedSolutions(titleSlug, session, { ...filter, limit: 1 });
   return solutions[0] ?? null;
 }
 
+/** Accepted solutions to import; `limit` 0 means every matching submission. */
+export interface AcceptedSolutionOptions extends SubmissionFilter {
+  limit?: number;
+}
+
+/** Newest accepted solutions matching the language and date filters, newest first. */
 export async function fetchAcceptedSolutions(
   titleSlug: string,
-  cookie: string,
-  options: { limit?: number } = {}
+  session: LeetCodeSession,
+  options: AcceptedSolutionOptions = {}
 ): Promise<SubmissionSolution[]> {
-  const { limit = 20 } = options;
-  const headers = buildHeaders({ titleSlug, cookie });
-  const submissions = await fetchAcceptedSubmissions(titleSlug, headers, limit);
+  const submissions = await fetchAcceptedSubmissions(titleSlug, session, options);
   if (!submissions.length) return [];
-  const results: SubmissionSolution[] = [];
-  for (const submission of submissions) {
-    const detail = await fetchSubmissionDetails(submission, { cookie, titleSlug });
-    if (detail?.code) {
-      results.push(detail);
-    }
-  }
-
-  return results;
+  // Detail requests share the client's concurrency limit and backoff.
+  const details = await Promise.all(
+    submissions.map((submission) => fetchSubmissionDetails(submission, { session, titleSlug }))
+  );
+  return details.filter((detail): detail is SubmissionSolution => Boolean(detail?.code));
 }
 
-async function fetchAcceptedSubmissions(
+/**
+ * Submit `code` for judging, as the Submit button in the LeetCode editor does. Resolves to
+ * the submission id; `lang` is LeetCode's language slug (`python3`, `cpp`).
+ */
+export async function submitSolution(
   titleSlug: string,
-  headers: Record<string, string>,
-  limit: number
-): Promise<
-  { id: string; lang?: string; runtime?: string; memory?: string; timestamp?: number }[]
-> {
-  const fallback = await requestUrl({
-    url: "https://leetcode.com/graphql",
+  questionId: string,
+  lang: string,
+  code: string,
+  session: LeetCodeSession
+): Promise<string> {
+  const { origin } = getSiteConfig(session.site);
+  const response = await client.request({
+    url: `${origin}/problems/${titleSlug}/submit/`,
     method: "POST",
-    body: JSON.stringify({
-      query: SUBMISSION_LIST_QUERY,
-      variables: { offset: 0, limit, questionSlug: titleSlug }
-    }),
-    headers,
-    throw: false
+    body: JSON.stringify({ lang, question_id: questionId, typed_code: code }),
+    headers: buildHeaders({ titleSlug, session })
   });
 
-  if (fallback.status === 401 || fallback.status === 403) {
+  if (response.status === 401 || response.status === 403) {
     throw new SessionExpiredError();
   }
 
-  const rawPayload: unknown = fallback.json ?? JSON.parse(fallback.text);
-  const fallbackPayload = ensureObject<SubmissionListResponse>(rawPayload, {
-    data: { questionSubmissionList: { submissions: [] } }
+  const rawPayload: unknown = response.json ?? JSON.parse(response.text || "{}");
+  const payload = ensureObject<{ submission_id?: number | string; error?: string }>(rawPayload, {});
+  if (response.status !== 200 || payload.submission_id === undefined) {
+    throw new Error(payload.error || `LeetCode вернул статус ${response.status}`);
+  }
+  return String(payload.submission_id);
+}
+
+/** Poll the submission until LeetCode has judged it (up to a minute). */
+export async function waitForVerdict(
+  submissionId: string,
+  titleSlug: string,
+  session: LeetCodeSession
+): Promise<SubmissionVerdict> {
+  const { origin } = getSiteConfig(session.site);
+  const deadline = Date.now() + VERDICT_MAX_WAIT_MS;
+  while (Date.now() < deadline) {
+    await sleep(VERDICT_POLL_INTERVAL_MS);
+    const response = await client.request({
+      url: `${origin}/submissions/detail/${submissionId}/check/`,
+      method: "GET",
+      headers: buildHeaders({ titleSlug, session })
+    });
+    if (response.status === 401 || response.status === 403) {
+      throw new SessionExpiredError();
+    }
+    if (response.status !== 200) {
+      throw new Error(`LeetCode вернул статус ${response.status}`);
+    }
+
+    const rawPayload: unknown = response.json ?? JSON.parse(response.text);
+    const check = ensureObject<SubmissionCheckResponse>(rawPayload, {});
+    if (check.state === "SUCCESS") return toVerdict(submissionId, check);
+  }
+  throw new Error("LeetCode не успел проверить решение, результат появится в истории отправок");
+}
+
+function toVerdict(submissionId: string, check: SubmissionCheckResponse): SubmissionVerdict {
+  const accepted = check.status_code === ACCEPTED_CODE;
+  const output = Array.isArray(check.code_output)
+    ? check.code_output.join("\n")
+    : check.code_output;
+  return {
+    submissionId,
+    status: check.status_msg || "Unknown",
+    accepted,
+    runtime: check.status_runtime || undefined,
+    memory: check.status_memory || undefined,
+    runtimePercentile: parsePercentile(check.runtime_percentile),
+    memoryPercentile: parsePercentile(check.memory_percentile),
+    totalCorrect: check.total_correct ?? undefined,
+    totalTestcases: check.total_testcases ?? undefined,
+    testcase: accepted
+      ? undefined
+      : {
+          input: check.last_testcase || undefined,
+          expected: check.expected_output || undefined,
+          output: output || undefined,
+          error:
+            check.full_compile_error ||
+            check.compile_error ||
+            check.full_runtime_error ||
+            check.runtime_error ||
+            undefined
+        }
+  };
+}
+
+/** An accepted submission with its code, as imported into Solutions. */
+export async function fetchSubmissionSolution(
+  submissionId: string,
+  titleSlug: string,
+  session: LeetCodeSession
+): Promise<SubmissionSolution | null> {
+  return fetchSubmissionDetails({ id: submissionId, status: ACCEPTED }, { session, titleSlug });
+}
+
+/**
+ * Full submission history for a problem, oldest first: every page up to
+ * MAX_SUBMISSION_PAGES, so the oldest attempts are not cut off. With `details`, failed
+ * attempts also carry their code and the failing test case (one extra request each).
+ */
+export async function fetchSubmissionHistory(
+  titleSlug: string,
+  session: LeetCodeSession,
+  options: { details?: boolean } = {}
+): Promise<SubmissionAttempt[]> {
+  const { details = false } = options;
+  const submissions = await fetchSubmissionList(titleSlug, session, { maxCount: Infinity });
+  const attempts = await Promise.all(
+    submissions.map(async (submission): Promise<SubmissionAttempt> => {
+      if (!details || submission.status === ACCEPTED) return submission;
+      const raw = await requestSubmissionDetails(submission.id, { session, titleSlug });
+      if (!raw) return submission;
+      const output = { ...raw, ...(raw.outputDetail ?? {}) };
+      return {
+        ...submission,
+        code: raw.code,
+        testcase: {
+          input: output.lastTestcase || undefined,
+          expected: output.expectedOutput || undefined,
+          output: output.codeOutput || undefined,
+          error: output.compileError || output.runtimeError || undefined
+        }
+      };
+    })
+  );
+  return attempts.sort((a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0));
+}
+
+async function fetchAcceptedSubmissions(
+  titleSlug: string,
+  session: LeetCodeSession,
+  options: AcceptedSolutionOptions
+): Promise<SubmissionListItem[]> {
+  const { limit = 20, ...filter } = options;
+  const submissions = await fetchSubmissionList(titleSlug, session, {
+    maxCount: limit > 0 ? limit : Infinity,
+    include: (submission) =>
+      submission.status === ACCEPTED && matchesSubmissionFilter(submission, filter),
+    // Pages come newest first: once past `since`, nothing older can match.
+    stop: (submission) => isBeforeFilterRange(submission, filter)
   });
-  const submissions =
-    fallbackPayload.data?.questionSubmissionList?.submissions?.filter(Boolean) ?? [];
-  if (!Array.isArray(submissions) || submissions.length === 0) {
-    return [];
+  return submissions.sort((a, b) => (b.timestamp ?? 0) - (a.timestamp ?? 0));
+}
+
+/**
+ * Submissions newest first, following `lastKey` pages until `maxCount` submissions pass
+ * `include`, `stop` matches one, or the list ends.
+ */
+async function fetchSubmissionList(
+  titleSlug: string,
+  session: LeetCodeSession,
+  options: {
+    maxCount: number;
+    include?: (submission: SubmissionListItem) => boolean;
+    stop?: (submission: SubmissionListItem) => boolean;
   }
+): Promise<SubmissionListItem[]> {
+  const { maxCount, include, stop } = options;
+  const items: SubmissionListItem[] = [];
+  let lastKey: string | null = null;
+
+  for (let page = 0; page < MAX_SUBMISSION_PAGES && items.length < maxCount; page++) {
+    const response = await client.request({
+      url: getSiteConfig(session.site).graphqlUrl,
+      method: "POST",
+      body: JSON.stringify({
+        query: QUERIES[session.site].submissionList,
+        variables: {
+          offset: page * SUBMISSION_PAGE_SIZE,
+          // Filtered lists need whole pages: most rows may not pass `include`.
+          limit: include
+            ? SUBMISSION_PAGE_SIZE
+            : Math.min(SUBMISSION_PAGE_SIZE, maxCount - items.length),
+          lastKey,
+          questionSlug: titleSlug
+        }
+      }),
+      headers: buildHeaders({ titleSlug, session })
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      throw new SessionExpiredError();
+    }
+    if (response.status !== 200) {
+      throw new Error(`LeetCode вернул статус ${response.status}`);
+    }
+
+    const rawPayload: unknown = response.json ?? JSON.parse(response.text);
+    const payload = ensureObject<SubmissionListResponse>(rawPayload, {});
+    const list = payload.data?.questionSubmissionList;
+    const submissions = list?.submissions?.filter(Boolean) ?? [];
+    let stopped = false;
+    for (const item of submissions) {
+      if (item.id === undefined) continue;
+      const submission: SubmissionListItem = {
+        id: String(item.id),
+        status: item.statusDisplay ?? "",
+        lang: item.lang,
+        runtime: item.runtime,
+        memory: item.memory,
+        timestamp: item.timestamp ? Number(item.timestamp) : undefined
+      };
+      if (stop?.(submission)) {
+        stopped = true;
+        break;
+      }
+      if (include && !include(submission)) continue;
+      items.push(submission);
+      if (items.length >= maxCount) break;
+    }
 
-  const accepted = submissions
-    .filter((s) => s?.statusDisplay === "Accepted")
-    .sort((a, b) => (Number(b.timestamp) || 0) - (Number(a.timestamp) || 0));
+    if (stopped || !list?.hasNext || submissions.length === 0) break;
+    lastKey = list.lastKey ?? null;
+  }
 
-  return accepted.map((item) => ({
-    id: String(item.id),
-    lang: item.lang,
-    runtime: item.runtime,
-    memory: item.memory,
-    timestamp: item.timestamp ? Number(item.timestamp) : undefined
-  }));
+  return items;
 }
 
 async function fetchSubmissionDetails(
-  submission: {
-    id: string;
-    lang?: string;
-    runtime?: string;
-    memory?: string;
-    timestamp?: number;
-  },
-  params: { cookie: string; titleSlug: string }
+  submission: SubmissionListItem,
+  params: { session: LeetCodeSession; titleSlug: string }
 ): Promise<SubmissionSolution | null> {
-  const { cookie, titleSlug } = params;
+  const details = await requestSubmissionDetails(submission.id, params);
+  if (!details?.code) return null;
+
+  const lang = typeof details.lang === "string" ? details.lang : details.lang?.name;
+  return {
+    id: String(details.id ?? submission.id),
+    code: details.code,
+    lang: lang ?? submission.lang,
+    runtime: details.runtimeDisplay ?? details.runtime ?? submission.runtime,
+    memory: details.memoryDisplay ?? details.memory ?? submission.memory,
+    runtimePercentile: parsePercentile(details.runtimePercentile),
+    memoryPercentile: parsePercentile(details.memoryPercentile),
+    timestamp: details.timestamp ?? submission.timestamp
+  };
+}
+
+/** Percentiles come as floats, or null while LeetCode has not computed them yet. */
+function parsePercentile(value: number | null | undefined): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+async function requestSubmissionDetails(
+  submissionId: string,
+  params: { session: LeetCodeSession; titleSlug: string }
+): Promise<SubmissionDetails | null> {
+  const { session, titleSlug } = params;
+  const { origin, graphqlUrl } = getSiteConfig(session.site);
 
   const detailHeaders = buildHeaders({
     titleSlug,
-    cookie,
-    referer: `https://leetcode.com/submissions/detail/${submission.id}/`
+    session,
+    referer: `${origin}/submissions/detail/${submissionId}/`
   });
 
-  const detailResponse = await requestUrl({
-    url: "https://leetcode.com/graphql",
+  const detailResponse = await client.request({
+    url: graphqlUrl,
     method: "POST",
     body: JSON.stringify({
-      query: SUBMISSION_DETAIL_QUERY,
-      variables: { submissionId: Number(submission.id) }
+      query: QUERIES[session.site].submissionDetail,
+      // leetcode.cn declares the id as ID! (string); leetcode.com as Int!.
+      variables: {
+        submissionId: session.site === "cn" ? submissionId : Number(submissionId)
+      }
     }),
-    headers: detailHeaders,
-    throw: false
+    headers: detailHeaders
   });
 
   if (detailResponse.status !== 200) {
@@ -392,33 +1452,24 @@ async function fetchSubmissionDetails(
 
   const rawPayload: unknown = detailResponse.json ?? JSON.parse(detailResponse.text);
   const detailPayload = ensureObject<SubmissionDetailsResponse>(rawPayload, {});
-  const details = detailPayload.data?.submissionDetails;
-  if (!details?.code) return null;
-
-  return {
-    id: String(details.id ?? submission.id),
-    code: details.code,
-    lang: details.lang?.name ?? submission.lang,
-    runtime: details.runtimeDisplay ?? details.runtime ?? submission.runtime,
-    memory: details.memoryDisplay ?? details.memory ?? submission.memory,
-    timestamp: details.timestamp ?? submission.timestamp
-  };
+  return detailPayload.data?.submissionDetails ?? null;
 }
 
 function buildHeaders(params: {
   titleSlug: string;
-  cookie: string;
+  session: LeetCodeSession;
   referer?: string;
 }): Record<string, string> {
-  const { titleSlug, cookie, referer } = params;
+  const { titleSlug, session, referer } = params;
+  const { origin } = getSiteConfig(session.site);
   const headers: Record<string, string> = {
     "content-type": "application/json",
-    referer: referer ?? `https://leetcode.com/problems/${titleSlug}/`,
-    origin: "https://leetcode.com",
+    referer: referer ?? `${origin}/problems/${titleSlug}/`,
+    origin,
     "x-requested-with": "XMLHttpRequest"
   };
 
-  const trimmed = cookie?.trim();
+  const trimmed = session.cookie?.trim();
   if (trimmed) {
     headers.Cookie = trimmed;
     const csrf = extractCookie(trimmed, "csrftoken");
@@ -442,10 +1493,15 @@ function ensureObject<T>(value: unknown, fallback: T): T {
 
 function toSimilarQuestion(item: unknown): SimilarQuestion | null {
   if (!item || typeof item !== "object") return null;
-  const candidate = item as { title?: string; titleSlug?: string; difficulty?: string };
+  const candidate = item as {
+    title?: string;
+    translatedTitle?: string | null;
+    titleSlug?: string;
+    difficulty?: string;
+  };
   if (!candidate.title || !candidate.titleSlug) return null;
   return {
-    title: candidate.title,
+    title: candidate.translatedTitle || candidate.title,
     slug: candidate.titleSlug,
     difficulty: candidate.difficulty ?? ""
   };
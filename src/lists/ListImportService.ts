@@ -0,0 +1,181 @@
+import { type App, normalizePath, Notice, type TFile } from "obsidian";
+
+import { indexFileName } from "../indexNotes/indexNote";
+import { writeIndexNote } from "../indexNotes/indexNoteWriter";
+import {
+  fetchProblemList,
+  fetchProblemListName,
+  fetchSolvedProblems,
+  fetchStudyPlan,
+  isRateLimitedError,
+  isSessionExpiredError,
+  type LeetCodeSession,
+  type ProblemSummary
+} from "../leetcode";
+import { collectNotesBySlug } from "../noteIndex";
+import type { LeetCodeTemplateSettings } from "../settings";
+import { listUrl, type ProblemListKind } from "../sites";
+import { getTemplateStrings, sectionHeaders } from "../template";
+import {
+  type ChecklistGroup,
+  countSolved,
+  formatProgress,
+  type ListIndexLabels,
+  listTitleFromSlug
+} from "./progressChecklist";
+
+export type ListStrings = {
+  modal: { title: string; label: string; placeholder: string; button: string };
+  invalidInput: string;
+  emptyList: string;
+  fetching: string;
+  creating: (done: number, total: number, title: string) => string;
+  summary: (summary: ListImportSummary) => string;
+  labels: ListIndexLabels;
+};
+
+export interface ListImportSummary {
+  list: string;
+  created: number;
+  existing: number;
+  solved: number;
+  total: number;
+  failed: Array<{ slug: string; reason: string }>;
+}
+
+export interface ListImportHost {
+  app: App;
+  settings: LeetCodeTemplateSettings;
+  createNoteForSlug(slug: string, session: LeetCodeSession, folder?: string): Promise<string>;
+  ensureFolder(path: string): Promise<void>;
+}
+
+interface FetchedList {
+  slug: string;
+  title: string;
+  groups: Array<{ name: string; problems: ProblemSummary[] }>;
+}
+
+/**
+ * Imports a problem list or study plan into a subfolder named after its slug: a note per
+ * problem (existing notes anywhere in the vault are reused) and an index note with a
+ * progress checklist. Running it again only creates notes for new problems and rewrites
+ * the checklist from the current accepted submissions.
+ */
+export class ListImportService {
+  constructor(
+    private readonly plugin: ListImportHost,
+    private readonly getStrings: () => ListStrings
+  ) {}
+
+  /**
+   * Import the list and return the index note. Session and rate-limit errors abort the
+   * run; other per-problem failures are listed in the summary notice.
+   */
+  async importList(
+    link: { kind: ProblemListKind; slug: string },
+    session: LeetCodeSession
+  ): Promise<TFile> {
+    const strings = this.getStrings();
+    const { app, settings } = this.plugin;
+    const notice = new Notice(strings.fetching, 0);
+    try {
+      const list = await this.fetchList(link, session);
+      const solvedSlugs = new Set((await fetchSolvedProblems(session)).map((p) => p.slug));
+      const root = settings.targetFolder.trim();
+      const folder = normalizePath(root ? `${root}/${list.slug}` : list.slug);
+      await this.plugin.ensureFolder(folder);
+
+      const summary: ListImportSummary = {
+        list: list.title,
+        created: 0,
+        existing: 0,
+        solved: 0,
+        total: 0,
+        failed: []
+      };
+      const problems = list.groups.flatMap((group) => group.problems);
+      const notes = collectNotesBySlug(app);
+      for (const [index, problem] of problems.entries()) {
+        if (notes.has(problem.slug)) {
+          summary.existing += 1;
+          continue;
+        }
+        notice.setMessage(strings.creating(index + 1, problems.length, problem.title));
+        try {
+          const path = await this.plugin.createNoteForSlug(problem.slug, session, folder);
+          const file = app.vault.getFileByPath(path);
+          if (file) notes.set(problem.slug, file);
+          summary.created += 1;
+        } catch (error) {
+          if (isSessionExpiredError(error) || isRateLimitedError(error)) throw error;
+          const reason = error instanceof Error ? error.message : String(error);
+          summary.failed.push({ slug: problem.slug, reason });
+        }
+      }
+
+      const indexPath = normalizePath(`${folder}/${indexFileName(list)}.md`);
+      const groups: ChecklistGroup[] = list.groups.map((group) => ({
+        name: group.name,
+        items: group.problems.map((problem) => {
+          const file = notes.get(problem.slug);
+          return {
+            link: file
+              ? app.fileManager.generateMarkdownLink(file, indexPath, undefined, problem.title)
+              : problem.title,
+            difficulty: problem.difficulty,
+            solved: solvedSlugs.has(problem.slug)
+          };
+        })
+      }));
+      Object.assign(summary, countSolved(groups));
+      const index = await this.writeIndex(indexPath, link, list, groups);
+      notice.hide();
+      new Notice(strings.summary(summary), 5000);
+      return index;
+    } catch (error) {
+      notice.hide();
+      throw error;
+    }
+  }
+
+  private async fetchList(
+    link: { kind: ProblemListKind; slug: string },
+    session: LeetCodeSession
+  ): Promise<FetchedList> {
+    if (link.kind === "studyPlan") {
+      const plan = await fetchStudyPlan(link.slug, session);
+      return { slug: plan.slug, title: plan.name, groups: plan.groups };
+    }
+    const problems = await fetchProblemList(link.slug, session);
+    if (problems.length === 0) {
+      throw new Error(this.getStrings().emptyList);
+    }
+    // The problemset query does not return the list's name; without it the slug stands in.
+    const name = await fetchProblemListName(link.slug, session).catch(() => null);
+    const title = name ?? listTitleFromSlug(link.slug);
+    return { slug: link.slug, title, groups: [{ name: "", problems }] };
+  }
+
+  /** Create the index note, or rewrite its checklist and progress properties. */
+  private async writeIndex(
+    path: string,
+    link: { kind: ProblemListKind; slug: string },
+    list: FetchedList,
+    groups: ChecklistGroup[]
+  ): Promise<TFile> {
+    const { labels } = this.getStrings();
+    const { language, site } = this.plugin.settings;
+    return writeIndexNote(this.plugin.app, path, {
+      title: list.title,
+      properties: { list: listUrl(site, link), ...countSolved(groups) },
+      sections: [
+        {
+          header: getTemplateStrings(language).listProgressHeader,
+          headers: sectionHeaders("listProgressHeader"),
+          body: formatProgress(groups, labels)
+        }
+      ]
+    });
+  }
+}
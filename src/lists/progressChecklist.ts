@@ -0,0 +1,50 @@
+/** Problem list index notes — no Obsidian imports (agent-runnable checks). */
+
+export interface ChecklistItem {
+  /** Link to the problem's note, or its title when there is no note. */
+  link: string;
+  difficulty: string;
+  /** The problem has an accepted submission. */
+  solved: boolean;
+}
+
+/** A study plan section; lists have a single group without a name. */
+export interface ChecklistGroup {
+  name: string;
+  items: ChecklistItem[];
+}
+
+export interface ListIndexLabels {
+  solved: (solved: number, total: number) => string;
+}
+
+/** A title for a list whose name is unknown: `top-sql-50` becomes `Top sql 50`. */
+export function listTitleFromSlug(slug: string): string {
+  const words = slug.replace(/[-_]+/g, " ").trim();
+  return words ? words.charAt(0).toUpperCase() + words.slice(1) : slug;
+}
+
+export function countSolved(groups: ChecklistGroup[]): { solved: number; total: number } {
+  const items = groups.flatMap((group) => group.items);
+  return { solved: items.filter((item) => item.solved).length, total: items.length };
+}
+
+/**
+ * The Progress section body: a solved count, then one checkbox per problem under a
+ * `###` heading per named group. Checkboxes are rewritten from LeetCode on every run.
+ */
+export function formatProgress(groups: ChecklistGroup[], labels: ListIndexLabels): string {
+  const { solved, total } = countSolved(groups);
+  const parts = [labels.solved(solved, total)];
+  for (const group of groups) {
+    if (group.items.length === 0) continue;
+    const items = group.items.map(formatItem);
+    parts.push(group.name ? [`### ${group.name}`, ...items].join("\n") : items.join("\n"));
+  }
+  return parts.join("\n\n");
+}
+
+function formatItem(item: ChecklistItem): string {
+  const known = item.difficulty && item.difficulty !== "Unknown";
+  return `- [${item.solved ? "x" : " "}] ${item.link}${known ? ` (${item.difficulty})` : ""}`;
+}
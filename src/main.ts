@@ -1,5 +1,6 @@
 import {
   App,
+  MarkdownView,
   Modal,
   normalizePath,
   Notice,
@@ -9,26 +10,84 @@ import {
   TFolder
 } from "obsidian";
 
+import { formatAttempts } from "./attempts";
 import { type AuthNotices, AuthService } from "./auth/AuthService";
+import { LeetCodeCache } from "./cache";
+import { ContestImportService, type ContestStrings } from "./contest/ContestImportService";
 import {
+  DASHBOARD_VIEW_TYPE,
+  type DashboardStrings,
+  DashboardView
+} from "./dashboard/DashboardView";
+import { applySolutionProperties, markDailyChallenge } from "./frontmatter";
+import { DescriptionImageStore } from "./images/DescriptionImageStore";
+import {
+  configureRequestClient,
   fetchAcceptedSolutions,
+  fetchDailyChallenge,
   fetchLatestAcceptedSolution,
-  fetchQuestion,
-  fetchSlugByNumber,
+  fetchSubmissionHistory,
+  isRateLimitedError,
   isSessionExpiredError,
+  type LeetCodeSession,
+  type ProblemSummary,
   type QuestionMetadata,
   type SubmissionSolution
 } from "./leetcode";
+import { ListImportService, type ListStrings } from "./lists/ListImportService";
+import { collectNotesBySlug } from "./noteIndex";
+import { DEFAULT_REQUEST_CLIENT_OPTIONS } from "./requestClient";
+import { REVIEW_QUEUE_VIEW_TYPE, ReviewQueueView } from "./review/ReviewQueueView";
+import { ReviewService, type ReviewStrings } from "./review/ReviewService";
+import { formatLocalDate, REVIEW_GRADES, type ReviewGrade } from "./review/scheduler";
+import {
+  type EditorState,
+  ExampleRunService,
+  type RunnerStrings
+} from "./runner/ExampleRunService";
+import { ProblemSearchModal, type SearchStrings } from "./search/ProblemSearchModal";
 import { DEFAULT_SETTINGS, LeetCodeSettingTab } from "./settings";
+import { extractContestSlug, extractSlug, parseListLink } from "./sites";
+import { noteComplexities, withEstimatedComplexity } from "./solutions/complexity";
+import { ComplexityModal, type ComplexityStrings } from "./solutions/ComplexityModal";
+import { markFastestSolution } from "./solutions/fastestSolution";
+import { insertIntoLanguageSubsections } from "./solutions/languageGroups";
+import { SolutionFileStore } from "./solutions/SolutionFileStore";
+import { invalidFilterDates, parseLanguageList } from "./solutions/submissionFilter";
+import { SubmitService, type SubmitStrings } from "./submit/SubmitService";
+import { BulkSyncService, type SyncStrings } from "./sync/BulkSyncService";
 import {
   buildNoteContent,
+  formatSolutionBlocks,
   formatSolutionsSection,
+  getTemplateStrings,
   type Language,
+  sectionHeaders,
+  type SolutionLayout,
   SOLUTIONS_HEADERS
 } from "./template";
+import { TemplateSyntaxError } from "./templateEngine";
+import { MetadataUpdateService, type UpdateStrings } from "./update/MetadataUpdateService";
+import { insertSection, replaceSection } from "./update/noteSections";
 
 type LocaleStrings = {
-  commands: { createNote: string; importSolution: string };
+  commands: {
+    createNote: string;
+    importSolution: string;
+    syncSolved: string;
+    refreshCache: string;
+    markReviewed: (grade: string) => string;
+    openReviewQueue: string;
+    openDashboard: string;
+    updateMetadata: string;
+    updateAllMetadata: string;
+    dailyChallenge: string;
+    searchProblems: string;
+    runExamples: string;
+    submitSolution: string;
+    importContest: string;
+    importList: string;
+  };
   modal: { title: string; label: string; placeholder: string; button: string };
   notices: {
     resolveSlugFail: string;
@@ -41,22 +100,60 @@ type LocaleStrings = {
     noCookies: string;
     noAccepted: string;
     updated: string;
-    importError: string;
     sessionExpired: string;
+    rateLimited: string;
+    cacheRefreshed: (count: number) => string;
+    invalidDate: (value: string) => string;
+    dailyOpened: (title: string) => string;
   };
   auth: AuthNotices;
-  errors: { pathConflict: (path: string) => string };
+  sync: SyncStrings;
+  review: ReviewStrings;
+  dashboard: DashboardStrings;
+  update: UpdateStrings;
+  search: SearchStrings;
+  complexity: ComplexityStrings;
+  runner: RunnerStrings;
+  submit: SubmitStrings;
+  contest: ContestStrings;
+  lists: ListStrings;
+  errors: {
+    pathConflict: (path: string) => string;
+    templateMissing: (path: string) => string;
+    templateSyntax: (message: string) => string;
+  };
 };
 
+interface PreparedNote {
+  metadata: QuestionMetadata;
+  content: string;
+  solutions: SubmissionSolution[];
+  /** Folder the note goes into. */
+  folder: string;
+}
+
 const LOCALES: Record<Language, LocaleStrings> = {
   en: {
     commands: {
       createNote: "Create note from LeetCode link",
-      importSolution: "Import solution for current problem"
+      importSolution: "Import solution for current problem",
+      syncSolved: "Sync all solved problems",
+      refreshCache: "Refresh LeetCode cache",
+      markReviewed: (grade) => `Mark reviewed (${grade})`,
+      openReviewQueue: "Open review queue",
+      openDashboard: "Open solve statistics dashboard",
+      updateMetadata: "Update problem metadata",
+      updateAllMetadata: "Update metadata for all problem notes",
+      dailyChallenge: "Create note for today's daily challenge",
+      searchProblems: "Search LeetCode problems",
+      runExamples: "Run solutions on example cases locally",
+      submitSolution: "Submit solution from cursor code block",
+      importContest: "Create notes for contest",
+      importList: "Import problem list or study plan"
     },
     modal: {
-      title: "LeetCode link or problem number",
-      label: "Link or number",
+      title: "LeetCode link, number or title",
+      label: "Link, number or title",
       placeholder: "https://leetcode.com/problems/two-sum/ or 1",
       button: "Create"
     },
@@ -71,8 +168,12 @@ const LOCALES: Record<Language, LocaleStrings> = {
       noCookies: "Log in to LeetCode in settings",
       noAccepted: "No accepted solutions found",
       updated: "Solutions updated",
-      importError: "Failed to import solution",
-      sessionExpired: "LeetCode session expired — please log in again"
+      sessionExpired: "LeetCode session expired — please log in again",
+      rateLimited: "LeetCode is rate limiting requests — try again in a few minutes",
+      cacheRefreshed: (count) => `LeetCode cache refreshed: ${count} problems`,
+      invalidDate: (value) =>
+        `Submission date filter "${value}" is not a YYYY-MM-DD date — fix it in settings`,
+      dailyOpened: (title) => `Daily challenge: ${title}`
     },
     auth: {
       loggedIn: (username) => `Logged in to LeetCode as ${username}.`,
@@ -83,18 +184,177 @@ const LOCALES: Record<Language, LocaleStrings> = {
       loggedOut: "Logged out of LeetCode.",
       cookiesInvalid: "Cookies are invalid or expired — try logging in again."
     },
+    sync: {
+      title: "Sync solved problems",
+      fetching: "Fetching solved problems…",
+      progress: (done, total) => `${done} / ${total}`,
+      current: (title) => `creating ${title}`,
+      cancel: "Cancel",
+      close: "Close",
+      cancelled: "Sync cancelled.",
+      finished: "Sync finished.",
+      summary: ({ created, skipped, failed }) =>
+        `Created: ${created}, skipped: ${skipped}, failed: ${failed.length}`,
+      failedHeader: "Failed problems:",
+      nothingSolved: "No solved problems found for this account"
+    },
+    review: {
+      viewTitle: "LeetCode review queue",
+      empty: "Nothing to review today.",
+      due: (date) => `due ${date}`,
+      grades: { again: "again", hard: "hard", good: "good", easy: "easy" },
+      reviewed: (title, nextReview) => `${title}: next review ${nextReview}`,
+      failed: (reason) => `Could not save the review: ${reason}`
+    },
+    dashboard: {
+      viewTitle: "LeetCode statistics",
+      refresh: "Refresh",
+      loading: "Scanning notes…",
+      empty: "No LeetCode problem notes found.",
+      total: (count) => `Problems: ${count}`,
+      byDifficulty: "By difficulty",
+      byTag: "By topic",
+      byLanguage: "By language",
+      overTime: "Solved over time",
+      weakestTags: "Topics with the fewest problems",
+      noTimestamps: "No solution timestamps yet."
+    },
+    search: {
+      placeholder: "Number, title, slug or topic",
+      empty: "No matching problems",
+      noteExists: "note exists",
+      paidOnly: "premium"
+    },
+    complexity: {
+      title: "Solution complexity",
+      intro: "Estimated from the code — check and correct before importing.",
+      time: "Time",
+      space: "Space",
+      code: "Code",
+      save: "Import",
+      skip: "Import without complexity"
+    },
+    runner: {
+      title: "Example cases",
+      running: (label) => `Running ${label}…`,
+      summary: (passed, total) => `Passed ${passed} of ${total}`,
+      status: {
+        pass: "✅ passed",
+        fail: "❌ wrong answer",
+        error: "💥 error",
+        unchecked: "❔ no expected output",
+        notRun: "⏭ not run"
+      },
+      input: "Input",
+      expected: "Expected",
+      output: "Output",
+      error: "Error",
+      stderr: "Error output",
+      timedOut: (seconds) => `Stopped after ${seconds} s (time limit).`,
+      exitCode: (code) => `Exited with code ${code}.`,
+      startFailed: (message) => `Could not start the interpreter: ${message}. Check the command in settings.`,
+      noSolution: "No Python, JavaScript or TypeScript solution in this note.",
+      noExamples: "This problem has no example cases.",
+      designProblem: "Design problems (classes with several methods) cannot be run locally.",
+      unsupportedTypes: "This problem uses types like ListNode or TreeNode that cannot be run locally.",
+      desktopOnly: "Running solutions is only available on desktop."
+    },
+    submit: {
+      noCodeBlock: "Place the cursor inside the code block to submit.",
+      unsupportedLanguage: (lang) => `LeetCode does not accept code block language "${lang}".`,
+      submitting: (lang) => `Submitting ${lang} solution to LeetCode…`,
+      accepted: "Accepted — solution added to the note",
+      rejected: (status) => `LeetCode verdict: ${status}`
+    },
+    contest: {
+      modal: {
+        title: "LeetCode contest",
+        label: "Contest link or slug",
+        placeholder: "https://leetcode.com/contest/weekly-contest-400/ or weekly-contest-400",
+        button: "Create"
+      },
+      invalidInput: "Could not resolve contest (check link or slug)",
+      fetching: "Fetching contest from LeetCode…",
+      creating: (done, total, title) => `Contest problems ${done} / ${total}: ${title}`,
+      summary: ({ contest, created, existing, failed }) =>
+        `${contest}: created ${created}, already in vault ${existing}, failed ${failed.length}` +
+        failed.map((failure) => `\n${failure.slug}: ${failure.reason}`).join(""),
+      labels: {
+        problem: "Problem",
+        points: "Points",
+        status: "Status",
+        statuses: {
+          contest: "✅ Solved in contest",
+          upsolved: "☑️ Solved after contest",
+          tried: "❌ Attempted",
+          none: "—"
+        },
+        rank: "Rank",
+        score: "Score",
+        solved: "Solved",
+        finishTime: "Finish time",
+        notParticipated: "Did not take part in this contest."
+      }
+    },
+    lists: {
+      modal: {
+        title: "LeetCode problem list or study plan",
+        label: "List or study plan link",
+        placeholder: "https://leetcode.com/studyplan/top-interview-150/",
+        button: "Import"
+      },
+      invalidInput: "Not a LeetCode problem list or study plan link",
+      emptyList: "The list has no problems or is not visible to this account",
+      fetching: "Fetching list from LeetCode…",
+      creating: (done, total, title) => `List problems ${done} / ${total}: ${title}`,
+      summary: ({ list, created, existing, solved, total, failed }) =>
+        `${list}: created ${created}, already in vault ${existing}, ` +
+        `solved ${solved} / ${total}, failed ${failed.length}` +
+        failed.map((failure) => `\n${failure.slug}: ${failure.reason}`).join(""),
+      labels: {
+        solved: (solved, total) => `Solved ${solved} / ${total}`
+      }
+    },
+    update: {
+      title: "Update problem metadata",
+      fetching: "Fetching problems from LeetCode…",
+      progress: (done, total) => `${done} / ${total}`,
+      current: (title) => `checking ${title}`,
+      cancel: "Cancel",
+      apply: "Apply",
+      frontmatterHeader: "Properties:",
+      noBodyChanges: "No changes in the note text.",
+      failedHeader: "Failed problems:",
+      upToDate: "Problem notes are up to date",
+      updated: (count) => `Updated notes: ${count}`
+    },
     errors: {
-      pathConflict: (path: string) => `Path ${path} is already a file.`
+      pathConflict: (path: string) => `Path ${path} is already a file.`,
+      templateMissing: (path: string) => `Note template ${path} not found.`,
+      templateSyntax: (message: string) => `Note template error: ${message}`
     }
   },
   ru: {
     commands: {
       createNote: "Создать заметку по ссылке LeetCode",
-      importSolution: "Импортировать решение для текущей задачи"
+      importSolution: "Импортировать решение для текущей задачи",
+      syncSolved: "Синхронизировать все решённые задачи",
+      refreshCache: "Обновить кэш LeetCode",
+      markReviewed: (grade) => `Отметить повторение (${grade})`,
+      openReviewQueue: "Открыть очередь повторения",
+      openDashboard: "Открыть статистику решений",
+      updateMetadata: "Обновить данные задачи",
+      updateAllMetadata: "Обновить данные во всех заметках задач",
+      dailyChallenge: "Создать заметку для задачи дня",
+      searchProblems: "Поиск задач LeetCode",
+      runExamples: "Запустить решения на примерах локально",
+      submitSolution: "Отправить решение из блока кода под курсором",
+      importContest: "Создать заметки для контеста",
+      importList: "Импортировать список задач или учебный план"
     },
     modal: {
-      title: "Ссылка или номер задачи LeetCode",
-      label: "Ссылка или номер",
+      title: "Ссылка, номер или название задачи LeetCode",
+      label: "Ссылка, номер или название",
       placeholder: "https://leetcode.com/problems/two-sum/ или 1",
       button: "Создать"
     },
@@ -109,8 +369,12 @@ const LOCALES: Record<Language, LocaleStrings> = {
       noCookies: "Войдите в LeetCode в настройках",
       noAccepted: "Accepted решения не найдены",
       updated: "Решения обновлены",
-      importError: "Не удалось импортировать решение",
-      sessionExpired: "Сессия LeetCode устарела — войдите снова"
+      sessionExpired: "Сессия LeetCode устарела — войдите снова",
+      rateLimited: "LeetCode ограничил частоту запросов — попробуйте через несколько минут",
+      cacheRefreshed: (count) => `Кэш LeetCode обновлён: задач — ${count}`,
+      invalidDate: (value) =>
+        `Фильтр по дате «${value}» не в формате YYYY-MM-DD — исправьте его в настройках`,
+      dailyOpened: (title) => `Задача дня: ${title}`
     },
     auth: {
       loggedIn: (username) => `Вход в LeetCode выполнен: ${username}.`,
@@ -121,8 +385,154 @@ const LOCALES: Record<Language, LocaleStrings> = {
       loggedOut: "Вы вышли из LeetCode.",
       cookiesInvalid: "Cookies недействительны или устарели — войдите снова."
     },
+    sync: {
+      title: "Синхронизация решённых задач",
+      fetching: "Загрузка списка решённых задач…",
+      progress: (done, total) => `${done} / ${total}`,
+      current: (title) => `создаётся ${title}`,
+      cancel: "Отмена",
+      close: "Закрыть",
+      cancelled: "Синхронизация отменена.",
+      finished: "Синхронизация завершена.",
+      summary: ({ created, skipped, failed }) =>
+        `Создано: ${created}, пропущено: ${skipped}, ошибок: ${failed.length}`,
+      failedHeader: "Не удалось создать:",
+      nothingSolved: "Решённые задачи для этого аккаунта не найдены"
+    },
+    review: {
+      viewTitle: "Очередь повторения LeetCode",
+      empty: "На сегодня повторять нечего.",
+      due: (date) => `к ${date}`,
+      grades: { again: "снова", hard: "трудно", good: "хорошо", easy: "легко" },
+      reviewed: (title, nextReview) => `${title}: следующее повторение ${nextReview}`,
+      failed: (reason) => `Не удалось сохранить повторение: ${reason}`
+    },
+    dashboard: {
+      viewTitle: "Статистика LeetCode",
+      refresh: "Обновить",
+      loading: "Сканирование заметок…",
+      empty: "Заметки задач LeetCode не найдены.",
+      total: (count) => `Задач: ${count}`,
+      byDifficulty: "По сложности",
+      byTag: "По темам",
+      byLanguage: "По языкам",
+      overTime: "Решения по времени",
+      weakestTags: "Темы с наименьшим числом задач",
+      noTimestamps: "Пока нет дат решений."
+    },
+    search: {
+      placeholder: "Номер, название, slug или тема",
+      empty: "Задачи не найдены",
+      noteExists: "заметка есть",
+      paidOnly: "premium"
+    },
+    complexity: {
+      title: "Сложность решений",
+      intro: "Оценка по коду — проверьте и поправьте перед импортом.",
+      time: "Время",
+      space: "Память",
+      code: "Код",
+      save: "Импортировать",
+      skip: "Импортировать без сложности"
+    },
+    runner: {
+      title: "Примеры",
+      running: (label) => `Запуск ${label}…`,
+      summary: (passed, total) => `Пройдено ${passed} из ${total}`,
+      status: {
+        pass: "✅ пройден",
+        fail: "❌ неверный ответ",
+        error: "💥 ошибка",
+        unchecked: "❔ нет ожидаемого ответа",
+        notRun: "⏭ не запущен"
+      },
+      input: "Вход",
+      expected: "Ожидается",
+      output: "Результат",
+      error: "Ошибка",
+      stderr: "Вывод ошибок",
+      timedOut: (seconds) => `Остановлено через ${seconds} с (лимит времени).`,
+      exitCode: (code) => `Завершено с кодом ${code}.`,
+      startFailed: (message) => `Не удалось запустить интерпретатор: ${message}. Проверьте команду в настройках.`,
+      noSolution: "В заметке нет решения на Python, JavaScript или TypeScript.",
+      noExamples: "У задачи нет примеров.",
+      designProblem: "Задачи на проектирование (классы с несколькими методами) нельзя запустить локально.",
+      unsupportedTypes: "Задача использует типы вроде ListNode или TreeNode, их нельзя запустить локально.",
+      desktopOnly: "Запуск решений доступен только в настольной версии."
+    },
+    submit: {
+      noCodeBlock: "Поставьте курсор внутрь блока кода, который нужно отправить.",
+      unsupportedLanguage: (lang) => `LeetCode не принимает код на языке блока «${lang}».`,
+      submitting: (lang) => `Отправка решения на ${lang} в LeetCode…`,
+      accepted: "Accepted — решение добавлено в заметку",
+      rejected: (status) => `Вердикт LeetCode: ${status}`
+    },
+    contest: {
+      modal: {
+        title: "Контест LeetCode",
+        label: "Ссылка или slug контеста",
+        placeholder: "https://leetcode.com/contest/weekly-contest-400/ или weekly-contest-400",
+        button: "Создать"
+      },
+      invalidInput: "Не удалось определить контест (проверьте ссылку или slug)",
+      fetching: "Загрузка контеста с LeetCode…",
+      creating: (done, total, title) => `Задачи контеста ${done} / ${total}: ${title}`,
+      summary: ({ contest, created, existing, failed }) =>
+        `${contest}: создано ${created}, уже в хранилище ${existing}, ошибок ${failed.length}` +
+        failed.map((failure) => `\n${failure.slug}: ${failure.reason}`).join(""),
+      labels: {
+        problem: "Задача",
+        points: "Баллы",
+        status: "Статус",
+        statuses: {
+          contest: "✅ Решена на контесте",
+          upsolved: "☑️ Решена после контеста",
+          tried: "❌ Были попытки",
+          none: "—"
+        },
+        rank: "Место",
+        score: "Баллы",
+        solved: "Решено",
+        finishTime: "Время финиша",
+        notParticipated: "В этом контесте не участвовал(а)."
+      }
+    },
+    lists: {
+      modal: {
+        title: "Список задач или учебный план LeetCode",
+        label: "Ссылка на список или план",
+        placeholder: "https://leetcode.com/studyplan/top-interview-150/",
+        button: "Импортировать"
+      },
+      invalidInput: "Это не ссылка на список задач или учебный план LeetCode",
+      emptyList: "В списке нет задач или он недоступен этому аккаунту",
+      fetching: "Загрузка списка с LeetCode…",
+      creating: (done, total, title) => `Задачи списка ${done} / ${total}: ${title}`,
+      summary: ({ list, created, existing, solved, total, failed }) =>
+        `${list}: создано ${created}, уже в хранилище ${existing}, ` +
+        `решено ${solved} / ${total}, ошибок ${failed.length}` +
+        failed.map((failure) => `\n${failure.slug}: ${failure.reason}`).join(""),
+      labels: {
+        solved: (solved, total) => `Решено ${solved} / ${total}`
+      }
+    },
+    update: {
+      title: "Обновление данных задач",
+      fetching: "Загрузка задач с LeetCode…",
+      progress: (done, total) => `${done} / ${total}`,
+      current: (title) => `проверяется ${title}`,
+      cancel: "Отмена",
+      apply: "Применить",
+      frontmatterHeader: "Свойства:",
+      noBodyChanges: "Текст заметки не меняется.",
+      failedHeader: "Не удалось обновить:",
+      upToDate: "Заметки задач актуальны",
+      updated: (count) => `Обновлено заметок: ${count}`
+    },
     errors: {
-      pathConflict: (path: string) => `Путь ${path} уже занят файлом.`
+      pathConflict: (path: string) => `Путь ${path} уже занят файлом.`,
+      templateMissing: (path: string) => `Шаблон заметки ${path} не найден.`,
+      templateSyntax: (message: string) => `Ошибка в шаблоне заметки: ${message}`
     }
   }
 };
@@ -134,10 +544,47 @@ function getLocaleStrings(language: Language): LocaleStrings {
 export default class LeetCodeTemplatePlugin extends Plugin {
   settings = DEFAULT_SETTINGS;
   auth!: AuthService;
+  bulkSync!: BulkSyncService;
+  cache!: LeetCodeCache;
+  review!: ReviewService;
+  metadataUpdate!: MetadataUpdateService;
+  exampleRuns!: ExampleRunService;
+  submissions!: SubmitService;
+  contests!: ContestImportService;
+  lists!: ListImportService;
+  images!: DescriptionImageStore;
+  solutionFiles!: SolutionFileStore;
 
   override async onload(): Promise<void> {
     await this.loadSettings();
+    configureRequestClient(() => ({
+      ...DEFAULT_REQUEST_CLIENT_OPTIONS,
+      concurrency: this.settings.maxConcurrentRequests,
+      maxRetries: this.settings.maxRetries
+    }));
     this.auth = new AuthService(this, () => getLocaleStrings(this.settings.language).auth);
+    this.cache = new LeetCodeCache(this);
+    this.bulkSync = new BulkSyncService(this, () => getLocaleStrings(this.settings.language).sync);
+    this.review = new ReviewService(this);
+    this.solutionFiles = new SolutionFileStore(this);
+    this.images = new DescriptionImageStore(this);
+    this.metadataUpdate = new MetadataUpdateService(
+      this,
+      () => getLocaleStrings(this.settings.language).update
+    );
+    this.exampleRuns = new ExampleRunService(
+      this,
+      () => getLocaleStrings(this.settings.language).runner
+    );
+    this.submissions = new SubmitService(
+      this,
+      () => getLocaleStrings(this.settings.language).submit
+    );
+    this.contests = new ContestImportService(
+      this,
+      () => getLocaleStrings(this.settings.language).contest
+    );
+    this.lists = new ListImportService(this, () => getLocaleStrings(this.settings.language).lists);
     const strings = getLocaleStrings(this.settings.language);
 
     this.addCommand({
@@ -146,13 +593,146 @@ export default class LeetCodeTemplatePlugin extends Plugin {
       callback: () => this.handleCreateNote()
     });
 
+    this.addCommand({
+      id: "search-leetcode-problems",
+      name: strings.commands.searchProblems,
+      callback: () => this.handleSearchProblems()
+    });
+
     this.addCommand({
       id: "import-leetcode-solution",
       name: strings.commands.importSolution,
       callback: () => this.handleImportSolution()
     });
 
+    this.addCommand({
+      id: "sync-solved-leetcode-problems",
+      name: strings.commands.syncSolved,
+      callback: () => this.handleSyncSolved()
+    });
+
+    this.addCommand({
+      id: "create-contest-notes",
+      name: strings.commands.importContest,
+      callback: () => this.handleImportContest()
+    });
+
+    this.addCommand({
+      id: "import-problem-list",
+      name: strings.commands.importList,
+      callback: () => this.handleImportList()
+    });
+
+    this.addCommand({
+      id: "create-daily-challenge-note",
+      name: strings.commands.dailyChallenge,
+      callback: () => this.handleDailyChallenge()
+    });
+
+    this.addCommand({
+      id: "refresh-leetcode-cache",
+      name: strings.commands.refreshCache,
+      callback: () => this.handleRefreshCache()
+    });
+
+    this.addCommand({
+      id: "update-problem-metadata",
+      name: strings.commands.updateMetadata,
+      checkCallback: (checking) => {
+        const file = this.app.workspace.getActiveFile();
+        const slug = file ? extractSlugFromFrontmatter(this.app, file) : null;
+        if (!file || !slug) return false;
+        if (!checking) {
+          void this.handleUpdateMetadata((session) =>
+            this.metadataUpdate.updateNote(file, slug, session)
+          );
+        }
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: "update-all-problem-metadata",
+      name: strings.commands.updateAllMetadata,
+      callback: () =>
+        this.handleUpdateMetadata((session) => this.metadataUpdate.updateVault(session))
+    });
+
+    this.addCommand({
+      id: "run-examples-locally",
+      name: strings.commands.runExamples,
+      checkCallback: (checking) => {
+        const file = this.app.workspace.getActiveFile();
+        const slug = file ? extractSlugFromFrontmatter(this.app, file) : null;
+        if (!file || !slug) return false;
+        if (!checking) void this.handleRunExamples(file, slug);
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: "submit-solution-from-cursor",
+      name: strings.commands.submitSolution,
+      editorCheckCallback: (checking, editor, ctx) => {
+        const file = ctx.file;
+        const slug = file ? extractSlugFromFrontmatter(this.app, file) : null;
+        if (!file || !slug) return false;
+        if (!checking) {
+          const state = { content: editor.getValue(), line: editor.getCursor().line };
+          void this.handleSubmitSolution(file, slug, state);
+        }
+        return true;
+      }
+    });
+
+    for (const grade of REVIEW_GRADES) {
+      this.addCommand({
+        id: `mark-reviewed-${grade}`,
+        name: strings.commands.markReviewed(strings.review.grades[grade]),
+        checkCallback: (checking) => {
+          const file = this.app.workspace.getActiveFile();
+          if (!file || !extractSlugFromFrontmatter(this.app, file)) return false;
+          if (!checking) void this.handleMarkReviewed(file, grade);
+          return true;
+        }
+      });
+    }
+
+    this.registerView(
+      REVIEW_QUEUE_VIEW_TYPE,
+      (leaf) =>
+        new ReviewQueueView(leaf, this.review, () => getLocaleStrings(this.settings.language).review)
+    );
+
+    this.addCommand({
+      id: "open-review-queue",
+      name: strings.commands.openReviewQueue,
+      callback: () => this.activateView(REVIEW_QUEUE_VIEW_TYPE)
+    });
+
+    this.registerView(
+      DASHBOARD_VIEW_TYPE,
+      (leaf) => new DashboardView(leaf, () => getLocaleStrings(this.settings.language).dashboard)
+    );
+
+    this.addCommand({
+      id: "open-dashboard",
+      name: strings.commands.openDashboard,
+      callback: () => this.activateView(DASHBOARD_VIEW_TYPE)
+    });
+
     this.addSettingTab(new LeetCodeSettingTab(this.app, this));
+
+    this.app.workspace.onLayoutReady(() => {
+      const today = formatLocalDate(new Date());
+      if (this.settings.autoDailyChallenge && this.settings.lastDailyChallenge !== today) {
+        void this.handleDailyChallenge(true);
+      }
+    });
+  }
+
+  override onunload(): void {
+    void this.cache.flush();
   }
 
   async loadSettings(): Promise<void> {
@@ -175,78 +755,417 @@ export default class LeetCodeTemplatePlugin extends Plugin {
     await this.auth.login();
   }
 
+  /** The signed-in session, or null (after opening the login window unless `prompt` is off). */
+  private async requireSession(
+    strings: LocaleStrings,
+    prompt = true
+  ): Promise<LeetCodeSession | null> {
+    const session = (await this.auth.syncSession()) ? this.buildSession() : null;
+    if (!session?.cookie) {
+      if (!prompt) return null;
+      new Notice(strings.notices.noCookies);
+      await this.auth.login();
+      return null;
+    }
+    return session;
+  }
+
+  /** Tell the user why a command failed; an expired session opens the login window. */
+  private async reportRequestError(error: unknown, strings: LocaleStrings): Promise<void> {
+    if (error instanceof TemplateSyntaxError) {
+      new Notice(strings.errors.templateSyntax(error.message), 7000);
+      return;
+    }
+    if (isSessionExpiredError(error)) {
+      await this.promptRelogin(strings);
+      return;
+    }
+    if (isRateLimitedError(error)) {
+      new Notice(strings.notices.rateLimited, 5000);
+      return;
+    }
+    const message = error instanceof Error ? error.message : strings.notices.unknownRequestError;
+    new Notice(`${strings.notices.fetchError}: ${message}`);
+  }
+
+  /** Run a command that needs LeetCode: check the login first, report failures after. */
+  private async withSession(
+    run: (session: LeetCodeSession, strings: LocaleStrings) => Promise<void>
+  ): Promise<void> {
+    const strings = getLocaleStrings(this.settings.language);
+    const session = await this.requireSession(strings);
+    if (!session) return;
+    try {
+      await run(session, strings);
+    } catch (error) {
+      await this.reportRequestError(error, strings);
+    }
+  }
+
   private async handleCreateNote(): Promise<void> {
     const strings = getLocaleStrings(this.settings.language);
-    const input = await new LinkInputModal(this.app, strings).waitForInput();
+    const input = await new LinkInputModal(this.app, strings.modal).waitForInput();
     if (!input) {
       return;
     }
 
-    if (!(await this.auth.syncSession())) {
-      new Notice(strings.notices.noCookies);
-      await this.auth.login();
+    await this.withSession(async (session) => {
+      const slug = await resolveSlug(input, session, this.cache);
+      if (!slug) {
+        if (/^\d+$/.test(input)) {
+          new Notice(strings.notices.resolveSlugFail);
+          return;
+        }
+        // Titles, partial names and tags go to the catalogue search.
+        await this.openProblemSearch(session, input);
+        return;
+      }
+
+      await this.createAndOpenNote(slug, session);
+    });
+  }
+
+  private async handleSearchProblems(): Promise<void> {
+    await this.withSession((session) => this.openProblemSearch(session));
+  }
+
+  private async openProblemSearch(session: LeetCodeSession, query = ""): Promise<void> {
+    const strings = getLocaleStrings(this.settings.language);
+    let problems: ProblemSummary[];
+    try {
+      problems = await this.cache.getCatalogue(session);
+    } catch (error) {
+      await this.reportRequestError(error, strings);
       return;
     }
 
-    const cookie = this.buildCookieHeader();
-    if (!cookie) {
-      new Notice(strings.notices.noCookies);
-      await this.auth.login();
+    const notes = collectNotesBySlug(this.app);
+    new ProblemSearchModal(this.app, problems, new Set(notes.keys()), strings.search, (problem) => {
+      const existing = notes.get(problem.slug);
+      if (existing) {
+        void this.app.workspace.getLeaf(false).openFile(existing);
+      } else {
+        void this.createAndOpenNote(problem.slug, session);
+      }
+    }).openWithQuery(query);
+  }
+
+  private async createAndOpenNote(slug: string, session: LeetCodeSession): Promise<void> {
+    const strings = getLocaleStrings(this.settings.language);
+    let note: PreparedNote;
+    try {
+      note = await this.prepareNote(slug, session);
+    } catch (error) {
+      await this.reportRequestError(error, strings);
       return;
     }
 
-    let slug: string | null;
     try {
-      slug = await resolveSlug(input, cookie);
+      const filePath = await this.writeNote(note, session);
+      new Notice(`${strings.notices.created}: ${filePath}`);
+      await this.app.workspace.openLinkText(filePath, "", false);
     } catch (error) {
-      if (isSessionExpiredError(error)) {
-        await this.promptRelogin(strings);
+      const message = error instanceof Error ? error.message : strings.notices.createFileFail;
+      new Notice(message);
+    }
+  }
+
+  /**
+   * Create (or find) the note for today's daily challenge and mark it in frontmatter.
+   * The automatic run on startup never opens the login window or the note.
+   */
+  private async handleDailyChallenge(auto = false): Promise<void> {
+    const strings = getLocaleStrings(this.settings.language);
+    const session = await this.requireSession(strings, !auto);
+    if (!session) return;
+
+    try {
+      const challenge = await fetchDailyChallenge(session);
+      let file = collectNotesBySlug(this.app).get(challenge.slug) ?? null;
+      if (!file) {
+        const filePath = await this.createNoteForSlug(challenge.slug, session);
+        new Notice(`${strings.notices.created}: ${filePath}`);
+        file = this.app.vault.getFileByPath(filePath);
+      }
+      if (!file) return;
+
+      await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) =>
+        markDailyChallenge(frontmatter, challenge.date)
+      );
+      this.settings.lastDailyChallenge = formatLocalDate(new Date());
+      await this.saveSettings();
+
+      if (auto) {
+        new Notice(strings.notices.dailyOpened(challenge.title));
+      } else {
+        await this.app.workspace.getLeaf(false).openFile(file);
+      }
+    } catch (error) {
+      if (auto && isSessionExpiredError(error)) {
+        new Notice(strings.notices.sessionExpired, 5000);
         return;
       }
-      const message = error instanceof Error ? error.message : strings.notices.unknownRequestError;
-      new Notice(`${strings.notices.fetchError}: ${message}`);
+      await this.reportRequestError(error, strings);
+    }
+  }
+
+  private async handleImportContest(): Promise<void> {
+    const strings = getLocaleStrings(this.settings.language);
+    const input = await new LinkInputModal(this.app, strings.contest.modal).waitForInput();
+    if (!input) {
       return;
     }
-    if (!slug) {
-      new Notice(strings.notices.resolveSlugFail);
+    const contestSlug = extractContestSlug(input);
+    if (!contestSlug) {
+      new Notice(strings.contest.invalidInput);
+      return;
+    }
+
+    await this.withSession(async (session) => {
+      const index = await this.contests.importContest(contestSlug, session);
+      await this.app.workspace.getLeaf(false).openFile(index);
+    });
+  }
+
+  private async handleImportList(): Promise<void> {
+    const strings = getLocaleStrings(this.settings.language);
+    const input = await new LinkInputModal(this.app, strings.lists.modal).waitForInput();
+    if (!input) {
+      return;
+    }
+    const link = parseListLink(input);
+    if (!link) {
+      new Notice(strings.lists.invalidInput);
       return;
     }
 
-    let metadata: QuestionMetadata;
-    let solutions: SubmissionSolution[] = [];
+    await this.withSession(async (session) => {
+      const index = await this.lists.importList(link, session);
+      await this.app.workspace.getLeaf(false).openFile(index);
+    });
+  }
+
+  private async handleSyncSolved(): Promise<void> {
+    await this.withSession(async (session) => {
+      await this.bulkSync.syncSolved(session);
+    });
+  }
+
+  private async handleUpdateMetadata(
+    run: (session: LeetCodeSession) => Promise<number>
+  ): Promise<void> {
+    await this.withSession(async (session) => {
+      await run(session);
+    });
+  }
+
+  private async handleRunExamples(file: TFile, slug: string): Promise<void> {
+    const strings = getLocaleStrings(this.settings.language);
+    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+    const editor =
+      view?.file === file
+        ? { content: view.editor.getValue(), line: view.editor.getCursor().line }
+        : undefined;
     try {
-      metadata = await fetchQuestion(slug, cookie);
-      if (this.settings.insertAllSolutions) {
-        solutions = await fetchAcceptedSolutions(slug, cookie);
-      } else {
-        const single = await fetchLatestAcceptedSolution(slug, cookie);
-        solutions = single ? [single] : [];
-      }
+      await this.exampleRuns.runForNote(file, slug, this.buildSession(), editor);
     } catch (error) {
-      if (isSessionExpiredError(error)) {
-        await this.promptRelogin(strings);
+      await this.reportRequestError(error, strings);
+    }
+  }
+
+  private async handleSubmitSolution(
+    file: TFile,
+    slug: string,
+    editor: EditorState
+  ): Promise<void> {
+    await this.withSession(async (session, strings) => {
+      const result = await this.submissions.submitBlock(file, slug, session, editor);
+      if (!result) return;
+      if (!result.solution) {
+        new Notice(strings.submit.rejected(result.verdict.status), 8000);
         return;
       }
-      const message = error instanceof Error ? error.message : strings.notices.unknownRequestError;
-      new Notice(`${strings.notices.fetchError}: ${message}`);
-      return;
+      await this.importSolutions(file, slug, session, [result.solution]);
+      new Notice(strings.submit.accepted);
+    });
+  }
+
+  private async handleMarkReviewed(file: TFile, grade: ReviewGrade): Promise<void> {
+    const strings = getLocaleStrings(this.settings.language);
+    try {
+      const next = await this.review.markReviewed(file, grade);
+      new Notice(strings.review.reviewed(file.basename, next.nextReview));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      new Notice(strings.review.failed(reason));
+    }
+  }
+
+  private async activateView(viewType: string): Promise<void> {
+    const { workspace } = this.app;
+    const existing = workspace.getLeavesOfType(viewType)[0];
+    const leaf = existing ?? workspace.getRightLeaf(false);
+    if (!leaf) return;
+    if (!existing) {
+      await leaf.setViewState({ type: viewType, active: true });
     }
+    await workspace.revealLeaf(leaf);
+  }
+
+  private async handleRefreshCache(): Promise<void> {
+    const strings = getLocaleStrings(this.settings.language);
+    const signedIn = await this.auth.syncSession();
+    const session = signedIn ? this.buildSession() : { cookie: "", site: this.settings.site };
+
+    try {
+      const count = await this.cache.refresh(session);
+      new Notice(strings.notices.cacheRefreshed(count));
+    } catch (error) {
+      await this.reportRequestError(error, strings);
+    }
+  }
+
+  /**
+   * Fetch everything for a problem and create its note in `folder` (by default the notes
+   * folder from settings); returns the new file path.
+   */
+  async createNoteForSlug(
+    slug: string,
+    session: LeetCodeSession,
+    folder = this.settings.targetFolder
+  ): Promise<string> {
+    return this.writeNote(await this.prepareNote(slug, session, folder), session);
+  }
+
+  /**
+   * Accepted solutions to import, honouring the language and date filters: up to the
+   * configured maximum with "Insert all solutions", otherwise only the latest one.
+   * A malformed date stops the import rather than silently widening the range.
+   */
+  private async fetchSolutions(
+    slug: string,
+    session: LeetCodeSession
+  ): Promise<SubmissionSolution[]> {
+    const filter = {
+      languages: parseLanguageList(this.settings.solutionLanguages),
+      since: this.settings.solutionsSince,
+      until: this.settings.solutionsUntil
+    };
+    const [invalid] = invalidFilterDates(filter);
+    if (invalid) {
+      throw new Error(getLocaleStrings(this.settings.language).notices.invalidDate(invalid));
+    }
+    if (this.settings.insertAllSolutions) {
+      return fetchAcceptedSolutions(slug, session, {
+        ...filter,
+        limit: this.settings.maxSolutions
+      });
+    }
+    const latest = await fetchLatestAcceptedSolution(slug, session, filter);
+    return latest ? [latest] : [];
+  }
+
+  private solutionLayout(): SolutionLayout {
+    return {
+      groupByLanguage: this.settings.groupSolutionsByLanguage,
+      preferredLanguages: parseLanguageList(this.settings.solutionLanguages),
+      markFastest: this.settings.markFastestSolution
+    };
+  }
+
+  private async prepareNote(
+    slug: string,
+    session: LeetCodeSession,
+    folder = this.settings.targetFolder
+  ): Promise<PreparedNote> {
+    const metadata = await this.cache.getQuestion(slug, session);
+    const fetched = await this.fetchSolutions(slug, session);
+    const images = await this.images.localize(metadata, this.notePath(metadata, folder));
+    const solutions = this.settings.complexityAnnotations
+      ? fetched.map(withEstimatedComplexity)
+      : fetched;
 
-    const noteContent = buildNoteContent(
+    const content = buildNoteContent(
       metadata,
       this.settings.includeDescription,
       solutions,
-      this.settings.language
+      this.settings.language,
+      {
+        template: await this.loadNoteTemplate(),
+        properties: this.settings,
+        inlineSolutions: !this.settings.solutionFiles,
+        solutionLayout: this.solutionLayout(),
+        starterLanguages: parseLanguageList(this.settings.starterCodeLanguages),
+        images,
+        includeHints: this.settings.includeHints
+      }
     );
+    return { metadata, content, solutions, folder };
+  }
 
-    try {
-      const filePath = await this.createNoteFile(metadata, noteContent);
-      new Notice(`${strings.notices.created}: ${filePath}`);
-      await this.app.workspace.openLinkText(filePath, "", false);
-    } catch (error) {
-      const message = error instanceof Error ? error.message : strings.notices.createFileFail;
-      new Notice(message);
+  /**
+   * Create the note file; solutions kept as files and the attempt history are added
+   * afterwards.
+   */
+  private async writeNote(note: PreparedNote, session: LeetCodeSession): Promise<string> {
+    const filePath = await this.createNoteFile(note.metadata, note.content, note.folder);
+    const file = this.app.vault.getFileByPath(filePath);
+    if (!file) return filePath;
+    if (this.settings.solutionFiles && note.solutions.length > 0) {
+      await this.storeSolutionFiles(file, note.solutions);
+      await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) =>
+        applySolutionProperties(frontmatter, note.solutions, this.settings)
+      );
+    }
+    if (this.settings.importAttempts) {
+      await this.updateAttempts(file, note.metadata.slug, session);
+    }
+    return filePath;
+  }
+
+  /** Replace the Attempts section with the full submission history. */
+  private async updateAttempts(
+    file: TFile,
+    slug: string,
+    session: LeetCodeSession
+  ): Promise<void> {
+    const details = this.settings.attemptDetails;
+    const attempts = await fetchSubmissionHistory(slug, session, { details });
+    if (attempts.length === 0) return;
+
+    const strings = getTemplateStrings(this.settings.language);
+    const body = formatAttempts(attempts, strings.attemptLabels, details);
+    await this.app.vault.process(
+      file,
+      (content) =>
+        replaceSection(content, sectionHeaders("attemptsHeader"), body) ??
+        insertSection(content, strings.attemptsHeader, body, Object.values(SOLUTIONS_HEADERS))
+    );
+  }
+
+  /** Write new solutions to the problem folder and link them from the Solutions section. */
+  private async storeSolutionFiles(file: TFile, solutions: SubmissionSolution[]): Promise<void> {
+    const content = await this.app.vault.read(file);
+    const links = await this.solutionFiles.writeSolutions(file, solutions, extractCodes(content));
+    if (links.size === 0) return;
+    const linked = solutions.filter((solution) => links.has(solution.id));
+    await this.app.vault.modify(
+      file,
+      upsertSolutionsSection(content, linked, this.settings.language, {
+        ...this.solutionLayout(),
+        links
+      })
+    );
+  }
+
+  private async loadNoteTemplate(): Promise<string | null> {
+    const path = this.settings.templatePath.trim();
+    if (!path) return null;
+    const file = this.app.vault.getFileByPath(normalizePath(path));
+    if (!file) {
+      throw new Error(getLocaleStrings(this.settings.language).errors.templateMissing(path));
     }
+    return this.app.vault.cachedRead(file);
   }
 
   private async handleImportSolution(): Promise<void> {
@@ -263,26 +1182,9 @@ export default class LeetCodeTemplatePlugin extends Plugin {
       return;
     }
 
-    if (!(await this.auth.syncSession())) {
-      new Notice(strings.notices.noCookies);
-      await this.auth.login();
-      return;
-    }
-
-    const cookie = this.buildCookieHeader();
-    if (!cookie) {
-      new Notice(strings.notices.noCookies);
-      await this.auth.login();
-      return;
-    }
-
-    try {
-      const solutions = this.settings.insertAllSolutions
-        ? await fetchAcceptedSolutions(slug, cookie)
-        : (() => fetchLatestAcceptedSolution(slug, cookie).then((item) => (item ? [item] : [])))();
-
-      const resolved = await solutions;
-      if (!resolved.length) {
+    await this.withSession(async (session) => {
+      const fetched = await this.fetchSolutions(slug, session);
+      if (!fetched.length) {
         const stillValid = await this.auth.syncSession();
         if (!stillValid) {
           await this.promptRelogin(strings);
@@ -292,18 +1194,70 @@ export default class LeetCodeTemplatePlugin extends Plugin {
         return;
       }
 
+      await this.importSolutions(file, slug, session, fetched);
+      new Notice(strings.notices.updated);
+    });
+  }
+
+  /**
+   * Add solutions to an existing note (inline or as files) and update the solution
+   * properties and, when enabled, the Attempts section.
+   */
+  private async importSolutions(
+    file: TFile,
+    slug: string,
+    session: LeetCodeSession,
+    fetched: SubmissionSolution[]
+  ): Promise<void> {
+    const resolved = this.settings.complexityAnnotations
+      ? await this.reviewComplexity(file, fetched)
+      : fetched;
+    if (this.settings.solutionFiles) {
+      await this.storeSolutionFiles(file, resolved);
+    } else {
       const content = await this.app.vault.read(file);
-      const updated = upsertSolutionsSection(content, resolved, this.settings.language);
+      const updated = upsertSolutionsSection(
+        content,
+        resolved,
+        this.settings.language,
+        this.solutionLayout()
+      );
       await this.app.vault.modify(file, updated);
-      new Notice(strings.notices.updated);
-    } catch (error) {
-      if (isSessionExpiredError(error)) {
-        await this.promptRelogin(strings);
-        return;
-      }
-      const message = error instanceof Error ? error.message : strings.notices.importError;
-      new Notice(message);
     }
+    const complexities = noteComplexities(await this.app.vault.read(file));
+    await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) =>
+      applySolutionProperties(frontmatter, resolved, this.settings, complexities)
+    );
+    if (this.settings.importAttempts) {
+      await this.updateAttempts(file, slug, session);
+    }
+  }
+
+  /** Let the user check the estimated complexity of solutions not yet in the note. */
+  private async reviewComplexity(
+    file: TFile,
+    solutions: SubmissionSolution[]
+  ): Promise<SubmissionSolution[]> {
+    const known = new Set([
+      ...extractCodes(await this.app.vault.read(file)),
+      ...(await this.solutionFiles.storedCodes(file))
+    ]);
+    const fresh = solutions.filter((solution) => {
+      const code = solution.code.trim();
+      if (known.has(code)) return false;
+      known.add(code);
+      return true;
+    });
+    if (fresh.length === 0) return solutions;
+
+    const strings = getLocaleStrings(this.settings.language);
+    const reviewed = await new ComplexityModal(this.app, fresh, strings.complexity).prompt();
+    const byId = new Map(reviewed.map((solution) => [solution.id, solution]));
+    return solutions.map((solution) => byId.get(solution.id) ?? solution);
+  }
+
+  private buildSession(): LeetCodeSession {
+    return { cookie: this.buildCookieHeader(), site: this.settings.site };
   }
 
   private buildCookieHeader(): string {
@@ -319,24 +1273,28 @@ export default class LeetCodeTemplatePlugin extends Plugin {
     return parts.join("; ");
   }
 
-  private async createNoteFile(metadata: QuestionMetadata, content: string): Promise<string> {
-    const folder = this.settings.targetFolder.trim();
-    const normalizedFolder = folder ? normalizePath(folder) : "";
-    const baseName = this.buildFileName(metadata);
-    const fileName = `${baseName}.md`;
-    const requestedPath = normalizedFolder
-      ? normalizePath(`${normalizedFolder}/${fileName}`)
-      : normalizePath(fileName);
-
-    if (normalizedFolder) {
-      await this.ensureFolder(normalizedFolder);
+  private async createNoteFile(
+    metadata: QuestionMetadata,
+    content: string,
+    targetFolder = this.settings.targetFolder
+  ): Promise<string> {
+    const folder = targetFolder.trim();
+    if (folder) {
+      await this.ensureFolder(normalizePath(folder));
     }
 
-    const finalPath = this.resolveCollision(requestedPath);
+    const finalPath = this.resolveCollision(this.notePath(metadata, folder));
     await this.app.vault.create(finalPath, content);
     return finalPath;
   }
 
+  /** Where the problem's note goes, before resolving a clash with an existing file. */
+  private notePath(metadata: QuestionMetadata, targetFolder = this.settings.targetFolder): string {
+    const folder = targetFolder.trim();
+    const fileName = `${this.buildFileName(metadata)}.md`;
+    return folder ? normalizePath(`${normalizePath(folder)}/${fileName}`) : normalizePath(fileName);
+  }
+
   private buildFileName(metadata: QuestionMetadata): string {
     const template = this.settings.filenameTemplate || "{{number}}-{{slug}}";
     const safe = sanitizeForPath;
@@ -355,7 +1313,7 @@ export default class LeetCodeTemplatePlugin extends Plugin {
     return trimmed.length ? trimmed : safe(metadata.slug ?? "leetcode-problem");
   }
 
-  private async ensureFolder(path: string): Promise<void> {
+  async ensureFolder(path: string): Promise<void> {
     const existing = this.app.vault.getAbstractFileByPath(path);
     if (!existing) {
       await this.app.vault.createFolder(path);
@@ -388,9 +1346,9 @@ export default class LeetCodeTemplatePlugin extends Plugin {
 class LinkInputModal extends Modal {
   private resolve: (value: string | null) => void = () => {};
   private reject: (reason?: unknown) => void = () => {};
-  private strings: LocaleStrings;
+  private strings: LocaleStrings["modal"];
 
-  constructor(app: App, strings: LocaleStrings) {
+  constructor(app: App, strings: LocaleStrings["modal"]) {
     super(app);
     this.strings = strings;
   }
@@ -406,15 +1364,15 @@ class LinkInputModal extends Modal {
   override onOpen(): void {
     const { contentEl } = this;
     contentEl.empty();
-    new Setting(contentEl).setName(this.strings.modal.title).setHeading();
+    new Setting(contentEl).setName(this.strings.title).setHeading();
 
     let inputValue = "";
 
     new Setting(contentEl)
-      .setName(this.strings.modal.label)
+      .setName(this.strings.label)
       .addText((text) =>
         text
-          .setPlaceholder(this.strings.modal.placeholder)
+          .setPlaceholder(this.strings.placeholder)
           .onChange((value) => {
             inputValue = value.trim();
           })
@@ -422,7 +1380,7 @@ class LinkInputModal extends Modal {
 
     new Setting(contentEl).addButton((btn) =>
       btn
-        .setButtonText(this.strings.modal.button)
+        .setButtonText(this.strings.button)
         .setCta()
         .onClick(() => {
           this.close();
@@ -437,19 +1395,17 @@ class LinkInputModal extends Modal {
   }
 }
 
-function extractSlug(link: string): string | null {
-  const match = link.match(/leetcode\.com\/problems\/([a-z0-9-]+)/i);
-  return match?.[1] ?? null;
-}
-
-async function resolveSlug(input: string, cookie: string): Promise<string | null> {
+async function resolveSlug(
+  input: string,
+  session: LeetCodeSession,
+  cache: LeetCodeCache
+): Promise<string | null> {
   const linkSlug = extractSlug(input);
   if (linkSlug) return linkSlug;
 
   const numeric = input.trim();
   if (/^\d+$/.test(numeric)) {
-    const slug = await fetchSlugByNumber(numeric, cookie);
-    return slug;
+    return cache.findSlugByNumber(numeric, session);
   }
 
   return null;
@@ -461,13 +1417,14 @@ function sanitizeForPath(value: string): string {
   return trimmed.replace(/[<>:"/\\|?*]+/g, "").replace(/\s+/g, "-");
 }
 
+function extractSlugFromFrontmatter(app: App, file: TFile): string | null {
+  const linkField: unknown = app.metadataCache.getFileCache(file)?.frontmatter?.link;
+  return typeof linkField === "string" ? extractSlug(linkField) : null;
+}
+
 async function extractSlugFromFile(app: App, file: TFile): Promise<string | null> {
-  const cache = app.metadataCache.getFileCache(file);
-  const linkField: unknown = cache?.frontmatter?.link;
-  if (typeof linkField === "string") {
-    const slug = extractSlug(linkField);
-    if (slug) return slug;
-  }
+  const slugFromFrontmatter = extractSlugFromFrontmatter(app, file);
+  if (slugFromFrontmatter) return slugFromFrontmatter;
 
   const content = await app.vault.read(file);
   const slugFromContent = extractSlug(content);
@@ -475,10 +1432,15 @@ async function extractSlugFromFile(app: App, file: TFile): Promise<string | null
   return null;
 }
 
+/**
+ * Append solutions whose code is not in the note yet to the Solutions section, or to
+ * their `### <language>` subsection when grouping by language.
+ */
 function upsertSolutionsSection(
   content: string,
   solutions: SubmissionSolution[],
-  language: Language
+  language: Language,
+  options: SolutionLayout & { links?: Map<string, string> } = {}
 ): string {
   if (!solutions.length) return content;
 
@@ -495,24 +1457,42 @@ function upsertSolutionsSection(
 
   if (uniqueNew.length === 0) return content;
 
-  const appendBlock = formatSolutionsSection(uniqueNew, {
-    includeHeader: false,
-    language
-  }).trim();
-
   if (existingMatch) {
-    const updatedSection = existingSection.trimEnd() + "\n\n" + appendBlock;
-    return content.replace(regex, updatedSection);
+    const merged = options.groupByLanguage
+      ? insertIntoLanguageSubsections(
+        existingSection,
+        formatSolutionBlocks(uniqueNew, { language, links: options.links }),
+        options.preferredLanguages
+      )
+      : existingSection.trimEnd() +
+        "\n\n" +
+        formatSolutionsSection(uniqueNew, {
+          ...options,
+          includeHeader: false,
+          language,
+          markFastest: false
+        }).trim();
+    // Compare against the solutions already in the note, not only the new ones.
+    const updatedSection = options.markFastest
+      ? markFastestSolution(merged, getTemplateStrings(language).fastestSolution)
+      : merged;
+    // A function replacement, so `$` in code is not read as a replacement pattern.
+    return content.replace(regex, () => `${updatedSection}\n`);
   }
 
-  const block = formatSolutionsSection(uniqueNew, { includeHeader: true, language }).trim();
+  const block = formatSolutionsSection(uniqueNew, {
+    ...options,
+    includeHeader: true,
+    language
+  }).trim();
   const trimmed = content.trimEnd();
   return trimmed ? `${trimmed}\n\n${block}\n` : `${block}\n`;
 }
 
+/** Code of every fenced block, whatever its info string (`python3`, `c++`, `c#`). */
 function extractCodes(section: string): string[] {
   const codes: string[] = [];
-  const regex = /```[a-z]*\n([\s\S]*?)\n```/gi;
+  const regex = /```[^\n]*\n([\s\S]*?)\n```/g;
   let match: RegExpExecArray | null;
   while ((match = regex.exec(section)) !== null) {
     codes.push((match[1] ?? "").trim());
@@ -0,0 +1,19 @@
+type CjsRequire = (id: string) => unknown;
+
+type HostWindow = Window & {
+  require?: CjsRequire;
+  module?: { require?: CjsRequire };
+};
+
+function hostWindow(): HostWindow {
+  // Prefer activeWindow for Obsidian popout compatibility (eslint-plugin-obsidianmd).
+  return typeof activeWindow !== "undefined" ? activeWindow : window;
+}
+
+/** Node's `require` from the desktop renderer; throws on mobile. */
+export function nodeRequire(id: string): unknown {
+  const w = hostWindow();
+  const fn = w.require ?? w.module?.require;
+  if (!fn) throw new Error("Node require() unavailable from renderer.");
+  return fn(id);
+}
@@ -0,0 +1,20 @@
+import type { App, TFile } from "obsidian";
+
+import { extractSlug } from "./sites";
+
+/**
+ * Problem notes in the vault keyed by slug, detected via the `link` frontmatter
+ * written by buildNoteContent. Relies on the metadata cache, so it does not read files.
+ */
+export function collectNotesBySlug(app: App): Map<string, TFile> {
+  const notes = new Map<string, TFile>();
+  for (const file of app.vault.getMarkdownFiles()) {
+    const link: unknown = app.metadataCache.getFileCache(file)?.frontmatter?.link;
+    if (typeof link !== "string") continue;
+    const slug = extractSlug(link);
+    if (slug && !notes.has(slug)) {
+      notes.set(slug, file);
+    }
+  }
+  return notes;
+}
@@ -0,0 +1,112 @@
+import { requestUrl, type RequestUrlParam, type RequestUrlResponse } from "obsidian";
+
+import {
+  DEFAULT_RETRY_OPTIONS,
+  isRetryableStatus,
+  parseRetryAfter,
+  retryDelay,
+  type RetryOptions
+} from "./retryPolicy";
+
+export interface RequestClientOptions extends RetryOptions {
+  /** Requests allowed in flight at once across the whole plugin. */
+  concurrency: number;
+}
+
+export const DEFAULT_REQUEST_CLIENT_OPTIONS: RequestClientOptions = {
+  ...DEFAULT_RETRY_OPTIONS,
+  concurrency: 2
+};
+
+export class RateLimitedError extends Error {
+  constructor(
+    readonly retryAfterMs: number | null = null,
+    message = "Rate limited by LeetCode"
+  ) {
+    super(message);
+    this.name = "RateLimitedError";
+  }
+}
+
+export function isRateLimitedError(error: unknown): error is RateLimitedError {
+  return error instanceof RateLimitedError;
+}
+
+/**
+ * Shared gate in front of requestUrl: caps concurrency and retries 429/5xx with
+ * exponential backoff (honouring Retry-After). Options are read on every request,
+ * so settings changes apply without reloading the plugin.
+ */
+export class RequestClient {
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+
+  constructor(
+    private getOptions: () => RequestClientOptions = () => DEFAULT_REQUEST_CLIENT_OPTIONS
+  ) {}
+
+  configure(getOptions: () => RequestClientOptions): void {
+    this.getOptions = getOptions;
+  }
+
+  /**
+   * Always resolves with the final response (never throws on HTTP status),
+   * except when retries run out on 429, which raises RateLimitedError.
+   */
+  async request(params: RequestUrlParam): Promise<RequestUrlResponse> {
+    const options = this.getOptions();
+    for (let attempt = 0; ; attempt += 1) {
+      const response = await this.withSlot(() => requestUrl({ ...params, throw: false }));
+      if (!isRetryableStatus(response.status)) {
+        return response;
+      }
+
+      const retryAfter = parseRetryAfter(readHeader(response.headers, "retry-after"));
+      if (attempt >= options.maxRetries) {
+        if (response.status === 429) throw new RateLimitedError(retryAfter);
+        return response;
+      }
+
+      await sleep(retryDelay(attempt, options, retryAfter));
+    }
+  }
+
+  private async withSlot<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    const limit = Math.max(1, Math.floor(this.getOptions().concurrency) || 1);
+    if (this.active < limit) {
+      this.active += 1;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      this.waiting.push(() => {
+        this.active += 1;
+        resolve();
+      });
+    });
+  }
+
+  private release(): void {
+    this.active -= 1;
+    const next = this.waiting.shift();
+    if (next) next();
+  }
+}
+
+function readHeader(headers: Record<string, string> | undefined, name: string): string | null {
+  if (!headers) return null;
+  const key = Object.keys(headers).find((candidate) => candidate.toLowerCase() === name);
+  return key ? (headers[key] ?? null) : null;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => window.setTimeout(resolve, ms));
+}
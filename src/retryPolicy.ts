@@ -0,0 +1,52 @@
+/** Pure retry/backoff policy — no Obsidian imports (agent-runnable checks). */
+
+export interface RetryOptions {
+  /** Retries after the first attempt; 0 disables retrying. */
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000
+};
+
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || (status >= 500 && status <= 599);
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds.
+ * Returns null when the header is missing or unparseable.
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | null {
+  const text = value?.trim();
+  if (!text) return null;
+
+  if (/^\d+(?:\.\d+)?$/.test(text)) {
+    return Math.round(parseFloat(text) * 1000);
+  }
+
+  const date = Date.parse(text);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with full jitter for the given zero-based retry attempt.
+ * A server-provided Retry-After wins over the computed delay but is still capped.
+ */
+export function retryDelay(
+  attempt: number,
+  options: RetryOptions,
+  retryAfterMs: number | null = null,
+  random: () => number = Math.random
+): number {
+  if (retryAfterMs !== null) {
+    return Math.min(retryAfterMs, options.maxDelayMs);
+  }
+  const ceiling = Math.min(options.baseDelayMs * 2 ** attempt, options.maxDelayMs);
+  return Math.round(ceiling / 2 + (random() * ceiling) / 2);
+}
@@ -0,0 +1,80 @@
+import { debounce, ItemView, Notice, type WorkspaceLeaf } from "obsidian";
+
+import type { ReviewService, ReviewStrings } from "./ReviewService";
+import { REVIEW_GRADES } from "./scheduler";
+
+export const REVIEW_QUEUE_VIEW_TYPE = "leetcode-review-queue";
+
+export class ReviewQueueView extends ItemView {
+  private readonly scheduleRender = debounce(() => this.render(), 500, true);
+
+  constructor(
+    leaf: WorkspaceLeaf,
+    private readonly service: ReviewService,
+    private readonly getStrings: () => ReviewStrings
+  ) {
+    super(leaf);
+  }
+
+  override getViewType(): string {
+    return REVIEW_QUEUE_VIEW_TYPE;
+  }
+
+  override getDisplayText(): string {
+    return this.getStrings().viewTitle;
+  }
+
+  override getIcon(): string {
+    return "calendar-check";
+  }
+
+  protected override async onOpen(): Promise<void> {
+    this.registerEvent(this.app.metadataCache.on("changed", () => this.scheduleRender()));
+    this.registerEvent(this.app.metadataCache.on("resolved", () => this.scheduleRender()));
+    this.render();
+  }
+
+  protected override async onClose(): Promise<void> {
+    this.scheduleRender.cancel();
+    this.contentEl.empty();
+  }
+
+  render(): void {
+    const strings = this.getStrings();
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const due = this.service.collectDue();
+    if (due.length === 0) {
+      contentEl.createEl("p", { text: strings.empty, cls: "setting-item-description" });
+      return;
+    }
+
+    const list = contentEl.createEl("ul");
+    for (const note of due) {
+      const item = list.createEl("li");
+      const link = item.createEl("a", { text: note.title, href: "#" });
+      link.addEventListener("click", (event) => {
+        event.preventDefault();
+        void this.app.workspace.getLeaf(false).openFile(note.file);
+      });
+
+      const details = [note.difficulty, strings.due(note.state.nextReview)].filter(Boolean);
+      item.createDiv({ text: details.join(" · "), cls: "setting-item-description" });
+
+      const buttons = item.createDiv();
+      for (const grade of REVIEW_GRADES) {
+        const button = buttons.createEl("button", { text: strings.grades[grade] });
+        button.addEventListener("click", () => {
+          this.service
+            .markReviewed(note.file, grade)
+            .then(() => this.scheduleRender())
+            .catch((error: unknown) => {
+              const reason = error instanceof Error ? error.message : String(error);
+              new Notice(this.getStrings().failed(reason));
+            });
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import type { App, TFile } from "obsidian";
+
+import { collectNotesBySlug } from "../noteIndex";
+import {
+  formatLocalDate,
+  initialReviewState,
+  isDue,
+  readReviewState,
+  type ReviewGrade,
+  type ReviewState,
+  scheduleReview,
+  writeReviewState
+} from "./scheduler";
+
+export type ReviewStrings = {
+  viewTitle: string;
+  empty: string;
+  due: (date: string) => string;
+  grades: Record<ReviewGrade, string>;
+  reviewed: (title: string, nextReview: string) => string;
+  failed: (reason: string) => string;
+};
+
+export interface ReviewPluginHost {
+  app: App;
+}
+
+export interface DueNote {
+  file: TFile;
+  title: string;
+  difficulty: string;
+  state: ReviewState;
+}
+
+export class ReviewService {
+  constructor(private readonly plugin: ReviewPluginHost) {}
+
+  /** Problem notes due on or before `today`, most overdue first. */
+  collectDue(today = formatLocalDate(new Date())): DueNote[] {
+    const { metadataCache } = this.plugin.app;
+    const due: DueNote[] = [];
+    for (const file of collectNotesBySlug(this.plugin.app).values()) {
+      const frontmatter = metadataCache.getFileCache(file)?.frontmatter;
+      const state = readReviewState(frontmatter);
+      if (!state || !isDue(state, today)) continue;
+      due.push({
+        file,
+        title: typeof frontmatter?.title === "string" ? frontmatter.title : file.basename,
+        difficulty: typeof frontmatter?.difficulty === "string" ? frontmatter.difficulty : "",
+        state
+      });
+    }
+    return due.sort(
+      (a, b) =>
+        a.state.nextReview.localeCompare(b.state.nextReview) || a.title.localeCompare(b.title)
+    );
+  }
+
+  /** Apply a grade to the note's review fields, initialising them on first review. */
+  async markReviewed(file: TFile, grade: ReviewGrade): Promise<ReviewState> {
+    const today = formatLocalDate(new Date());
+    // Notes created before review tracking start as due today.
+    let next: ReviewState = scheduleReview(
+      { ...initialReviewState(today), nextReview: today },
+      grade,
+      today
+    );
+    await this.plugin.app.fileManager.processFrontMatter(
+      file,
+      (frontmatter: Record<string, unknown>) => {
+        const current = readReviewState(frontmatter);
+        if (current) next = scheduleReview(current, grade, today);
+        writeReviewState(frontmatter, next);
+      }
+    );
+    return next;
+  }
+}
@@ -0,0 +1,119 @@
+/** SM-2 style review scheduling — no Obsidian imports (agent-runnable checks). */
+
+export type ReviewGrade = "again" | "hard" | "good" | "easy";
+
+export const REVIEW_GRADES: ReviewGrade[] = ["again", "hard", "good", "easy"];
+
+export interface ReviewState {
+  /** Local date `YYYY-MM-DD` the problem is due. */
+  nextReview: string;
+  /** Days until the next review; 0 while the problem is (re)learned. */
+  interval: number;
+  ease: number;
+  count: number;
+}
+
+/** Frontmatter keys written by buildNoteContent and updated on review. */
+export const REVIEW_KEYS = {
+  nextReview: "next_review",
+  interval: "review_interval",
+  ease: "review_ease",
+  count: "review_count"
+} as const;
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+export function initialReviewState(today: string): ReviewState {
+  return { nextReview: addDays(today, 1), interval: 0, ease: DEFAULT_EASE, count: 0 };
+}
+
+export function scheduleReview(state: ReviewState, grade: ReviewGrade, today: string): ReviewState {
+  let ease = state.ease;
+  let interval: number;
+
+  switch (grade) {
+    case "again":
+      ease -= 0.2;
+      interval = 0;
+      break;
+    case "hard":
+      ease -= 0.15;
+      interval = Math.max(1, Math.round(state.interval * 1.2));
+      break;
+    case "good":
+      interval = nextInterval(state.interval, ease);
+      break;
+    case "easy":
+      ease += 0.15;
+      interval = Math.round(nextInterval(state.interval, ease) * 1.3);
+      break;
+  }
+
+  ease = Math.max(MIN_EASE, roundEase(ease));
+  return {
+    nextReview: addDays(today, Math.max(1, interval)),
+    interval,
+    ease,
+    count: state.count + 1
+  };
+}
+
+export function isDue(state: Pick<ReviewState, "nextReview">, today: string): boolean {
+  return state.nextReview <= today;
+}
+
+/** Read review fields from frontmatter; missing or malformed fields yield null. */
+export function readReviewState(frontmatter: Record<string, unknown> | undefined): ReviewState | null {
+  if (!frontmatter) return null;
+  const nextReview = toDateString(frontmatter[REVIEW_KEYS.nextReview]);
+  if (!nextReview) return null;
+  return {
+    nextReview,
+    interval: toNumber(frontmatter[REVIEW_KEYS.interval], 0),
+    ease: toNumber(frontmatter[REVIEW_KEYS.ease], DEFAULT_EASE),
+    count: toNumber(frontmatter[REVIEW_KEYS.count], 0)
+  };
+}
+
+export function writeReviewState(frontmatter: Record<string, unknown>, state: ReviewState): void {
+  frontmatter[REVIEW_KEYS.nextReview] = state.nextReview;
+  frontmatter[REVIEW_KEYS.interval] = state.interval;
+  frontmatter[REVIEW_KEYS.ease] = state.ease;
+  frontmatter[REVIEW_KEYS.count] = state.count;
+}
+
+export function formatLocalDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function addDays(day: string, days: number): string {
+  const [year = 0, month = 1, date = 1] = day.split("-").map(Number);
+  return formatLocalDate(new Date(year, month - 1, date + days));
+}
+
+function nextInterval(previous: number, ease: number): number {
+  if (previous < 1) return 1;
+  if (previous < 6) return 6;
+  return Math.round(previous * ease);
+}
+
+function roundEase(ease: number): number {
+  return Math.round(ease * 100) / 100;
+}
+
+function toDateString(value: unknown): string | null {
+  if (value instanceof Date && !Number.isNaN(value.getTime())) {
+    return value.toISOString().slice(0, 10);
+  }
+  if (typeof value !== "string") return null;
+  const match = value.trim().match(/^\d{4}-\d{2}-\d{2}/);
+  return match ? match[0] : null;
+}
+
+function toNumber(value: unknown, fallback: number): number {
+  const parsed = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
@@ -0,0 +1,174 @@
+import { type App, Notice, Platform, type TFile } from "obsidian";
+
+import type { LeetCodeCache } from "../cache";
+import type { LeetCodeSession } from "../leetcode";
+import type { LeetCodeTemplateSettings } from "../settings";
+import { solutionLinkTarget } from "../solutions/solutionFiles";
+import { SOLUTIONS_HEADERS } from "../template";
+import { sectionBody } from "../update/noteSections";
+import {
+  buildHarness,
+  codeBlockAtLine,
+  codeBlocks,
+  HARNESS_EXTENSIONS,
+  parseHarnessOutput,
+  reportCases,
+  type RunnableLanguage,
+  runnableLanguage} from "./harness";
+import { runProgram } from "./LocalRunner";
+import { type RunnerStrings, RunResultsModal, type SolutionRun } from "./RunResultsModal";
+import {
+  buildTestCases,
+  parseExampleOutputs,
+  parseSignature,
+  type ProblemSignature,
+  type TestCase
+} from "./testCases";
+
+export type { RunnerStrings } from "./RunResultsModal";
+
+export interface ExampleRunHost {
+  app: App;
+  settings: LeetCodeTemplateSettings;
+  cache: LeetCodeCache;
+}
+
+/** The editor's text and cursor line, when the command runs from an open editor. */
+export interface EditorState {
+  content: string;
+  line: number;
+}
+
+interface RunnableSolution {
+  label: string;
+  language: RunnableLanguage;
+  code: string;
+}
+
+/**
+ * Runs a note's Python, JavaScript and TypeScript solutions against the problem's example
+ * cases with locally installed interpreters (desktop only). The code block under the
+ * cursor wins; otherwise every runnable block and linked solution file in Solutions runs.
+ */
+export class ExampleRunService {
+  constructor(
+    private readonly plugin: ExampleRunHost,
+    private readonly getStrings: () => RunnerStrings
+  ) {}
+
+  async runForNote(
+    file: TFile,
+    slug: string,
+    session: LeetCodeSession,
+    editor?: EditorState
+  ): Promise<void> {
+    const strings = this.getStrings();
+    if (!Platform.isDesktopApp) {
+      new Notice(strings.desktopOnly);
+      return;
+    }
+
+    const solutions = await this.collectSolutions(file, editor);
+    if (solutions.length === 0) {
+      new Notice(strings.noSolution);
+      return;
+    }
+
+    const metadata = await this.plugin.cache.getQuestion(slug, session);
+    const parsed = parseSignature(metadata.metaData);
+    if (parsed.kind !== "ok") {
+      const notices = {
+        missing: strings.noExamples,
+        design: strings.designProblem,
+        unsupported: strings.unsupportedTypes
+      };
+      new Notice(notices[parsed.kind]);
+      return;
+    }
+    const { signature } = parsed;
+    const cases = buildTestCases(
+      metadata.exampleTestcases ?? "",
+      signature,
+      parseExampleOutputs(metadata.content ?? "")
+    );
+    if (cases.length === 0) {
+      new Notice(strings.noExamples);
+      return;
+    }
+
+    const modal = new RunResultsModal(this.plugin.app, strings);
+    modal.open();
+    for (const solution of solutions) {
+      modal.setRunning(solution.label);
+      modal.addRun(await this.runSolution(solution, signature, cases, strings));
+    }
+    modal.setRunning(null);
+  }
+
+  private async runSolution(
+    solution: RunnableSolution,
+    signature: ProblemSignature,
+    cases: TestCase[],
+    strings: RunnerStrings
+  ): Promise<SolutionRun> {
+    const { settings } = this.plugin;
+    const timeoutSeconds = Math.max(1, settings.runTimeoutSeconds);
+    const result = await runProgram(
+      buildHarness(
+        solution.language,
+        solution.code,
+        signature,
+        cases.map((testCase) => testCase.args)
+      ),
+      HARNESS_EXTENSIONS[solution.language],
+      this.commandFor(solution.language),
+      timeoutSeconds * 1000
+    );
+
+    let problem: string | undefined;
+    if (result.startError) problem = strings.startFailed(result.startError);
+    else if (result.timedOut) problem = strings.timedOut(timeoutSeconds);
+    else if (result.exitCode) problem = strings.exitCode(result.exitCode);
+    return {
+      label: solution.label,
+      cases: reportCases(cases, parseHarnessOutput(result.stdout), signature),
+      problem,
+      stderr: result.stderr
+    };
+  }
+
+  private commandFor(language: RunnableLanguage): string {
+    const { settings } = this.plugin;
+    if (language === "python") return settings.pythonCommand;
+    if (language === "javascript") return settings.javascriptCommand;
+    return settings.typescriptCommand;
+  }
+
+  private async collectSolutions(file: TFile, editor?: EditorState): Promise<RunnableSolution[]> {
+    const content = editor?.content ?? (await this.plugin.app.vault.read(file));
+    const atCursor = editor ? codeBlockAtLine(content, editor.line) : null;
+    const cursorLanguage = atCursor ? runnableLanguage(atCursor.lang) : null;
+    if (atCursor && cursorLanguage) {
+      return [{ label: atCursor.lang, language: cursorLanguage, code: atCursor.code }];
+    }
+
+    const body = sectionBody(content, Object.values(SOLUTIONS_HEADERS)) ?? "";
+    const solutions: RunnableSolution[] = [];
+    codeBlocks(body).forEach((block, index) => {
+      const language = runnableLanguage(block.lang);
+      if (!language) return;
+      solutions.push({ label: `${block.lang} #${index + 1}`, language, code: block.code });
+    });
+    for (const line of body.split("\n")) {
+      const target = solutionLinkTarget(line);
+      if (!target) continue;
+      const linked = this.plugin.app.metadataCache.getFirstLinkpathDest(target, file.path);
+      const language = linked ? runnableLanguage(linked.extension) : null;
+      if (!linked || !language) continue;
+      const code = await this.plugin.app.vault.read(linked);
+      solutions.push({ label: linked.name, language, code });
+    }
+    return solutions;
+  }
+}
+
@@ -0,0 +1,77 @@
+import type * as ChildProcess from "child_process";
+import type * as Fs from "fs/promises";
+import type * as Os from "os";
+import type * as Path from "path";
+
+import { nodeRequire } from "../nodeRequire";
+
+export interface ProcessResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  /** Set when the process could not be started, e.g. the command is not installed. */
+  startError?: string;
+}
+
+/** Output beyond this is dropped, so a runaway print loop cannot exhaust memory. */
+const MAX_OUTPUT = 1_000_000;
+
+/**
+ * Write `source` to a temporary file, run `command <file>` (desktop only) and collect its
+ * output. The process is killed after `timeoutMs`; the temporary folder is removed.
+ */
+export async function runProgram(
+  source: string,
+  extension: string,
+  command: string,
+  timeoutMs: number
+): Promise<ProcessResult> {
+  const { spawn } = nodeRequire("child_process") as typeof ChildProcess;
+  const fs = nodeRequire("fs/promises") as typeof Fs;
+  const os = nodeRequire("os") as typeof Os;
+  const path = nodeRequire("path") as typeof Path;
+
+  const [program, ...args] = splitCommand(command);
+  if (!program) return emptyResult({ startError: "Empty command" });
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "leetcode-run-"));
+  const file = path.join(dir, `solution.${extension}`);
+  try {
+    await fs.writeFile(file, source, "utf8");
+    return await new Promise<ProcessResult>((resolve) => {
+      const result = emptyResult();
+      const child = spawn(program, [...args, file], { cwd: dir, windowsHide: true });
+      const timer = window.setTimeout(() => {
+        result.timedOut = true;
+        child.kill();
+      }, timeoutMs);
+
+      child.stdout.on("data", (chunk: Buffer) => {
+        if (result.stdout.length < MAX_OUTPUT) result.stdout += chunk.toString();
+      });
+      child.stderr.on("data", (chunk: Buffer) => {
+        if (result.stderr.length < MAX_OUTPUT) result.stderr += chunk.toString();
+      });
+      child.on("error", (error) => {
+        window.clearTimeout(timer);
+        resolve({ ...result, startError: error.message });
+      });
+      child.on("close", (code) => {
+        window.clearTimeout(timer);
+        resolve({ ...result, exitCode: code });
+      });
+    });
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/** `node --flag "C:\Program Files\x"` → program and arguments; quotes group words. */
+function splitCommand(command: string): string[] {
+  return (command.match(/"[^"]*"|\S+/g) ?? []).map((part) => part.replace(/^"(.*)"$/, "$1"));
+}
+
+function emptyResult(overrides: Partial<ProcessResult> = {}): ProcessResult {
+  return { stdout: "", stderr: "", exitCode: null, timedOut: false, ...overrides };
+}
@@ -0,0 +1,98 @@
+import { type App, Modal, Setting } from "obsidian";
+
+import type { CaseReport, CaseStatus } from "./harness";
+
+export type RunnerStrings = {
+  title: string;
+  running: (label: string) => string;
+  summary: (passed: number, total: number) => string;
+  status: Record<CaseStatus, string>;
+  input: string;
+  expected: string;
+  output: string;
+  error: string;
+  stderr: string;
+  timedOut: (seconds: number) => string;
+  exitCode: (code: number) => string;
+  startFailed: (message: string) => string;
+  noSolution: string;
+  noExamples: string;
+  designProblem: string;
+  unsupportedTypes: string;
+  desktopOnly: string;
+};
+
+/** Result of running one solution against the examples. */
+export interface SolutionRun {
+  label: string;
+  cases: CaseReport[];
+  /** Why the run stopped early or failed to start, if it did. */
+  problem?: string;
+  stderr: string;
+}
+
+/** Shows which solution is running, then pass/fail per example case for each solution. */
+export class RunResultsModal extends Modal {
+  private statusEl: HTMLElement | null = null;
+  private resultsEl: HTMLElement | null = null;
+
+  constructor(
+    app: App,
+    private readonly strings: RunnerStrings
+  ) {
+    super(app);
+  }
+
+  override onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    new Setting(contentEl).setName(this.strings.title).setHeading();
+    this.statusEl = contentEl.createEl("p", { cls: "setting-item-description" });
+    this.resultsEl = contentEl.createDiv();
+  }
+
+  setRunning(label: string | null): void {
+    this.statusEl?.setText(label ? this.strings.running(label) : "");
+  }
+
+  addRun(run: SolutionRun): void {
+    const container = this.resultsEl;
+    if (!container) return;
+    const passed = run.cases.filter((report) => report.status === "pass").length;
+    new Setting(container)
+      .setName(run.label)
+      .setDesc(this.strings.summary(passed, run.cases.length))
+      .setHeading();
+    if (run.problem) container.createEl("p", { text: run.problem, cls: "mod-warning" });
+
+    run.cases.forEach((report, index) => {
+      const details = container.createEl("details");
+      details.open = report.status === "fail" || report.status === "error";
+      const time = report.ms === undefined ? "" : ` · ${report.ms.toFixed(1)} ms`;
+      details.createEl("summary", {
+        text: `#${index + 1} ${this.strings.status[report.status]}${time}`
+      });
+      const blocks: Array<[string, string | undefined]> = [
+        [this.strings.input, report.input.join("\n")],
+        [this.strings.expected, report.expected],
+        [this.strings.output, report.actual],
+        [this.strings.error, report.error]
+      ];
+      for (const [label, value] of blocks) {
+        if (value === undefined || value === "") continue;
+        details.createEl("p", { text: label });
+        details.createEl("pre").createEl("code", { text: value });
+      }
+    });
+
+    if (run.stderr.trim()) {
+      const details = container.createEl("details");
+      details.createEl("summary", { text: this.strings.stderr });
+      details.createEl("pre").createEl("code", { text: run.stderr.trimEnd() });
+    }
+  }
+
+  override onClose(): void {
+    this.contentEl.empty();
+  }
+}
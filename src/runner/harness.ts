@@ -0,0 +1,192 @@
+/** Local run harness for solutions — no Obsidian imports (agent-runnable checks). */
+
+import { matchesExpected, type ProblemSignature, type TestCase } from "./testCases";
+
+export type RunnableLanguage = "python" | "javascript" | "typescript";
+
+export interface CodeBlock {
+  lang: string;
+  code: string;
+  /** Lines of the opening and closing fence, 0-based. */
+  startLine: number;
+  endLine: number;
+}
+
+/** One case as reported by the harness. */
+export interface CaseOutcome {
+  ok: boolean;
+  value?: unknown;
+  error?: string;
+  ms?: number;
+}
+
+export type CaseStatus = "pass" | "fail" | "error" | "unchecked" | "notRun";
+
+/** One example case after a run, ready to show. */
+export interface CaseReport {
+  input: string[];
+  expected?: string;
+  actual?: string;
+  status: CaseStatus;
+  error?: string;
+  ms?: number;
+}
+
+/** Prefix of harness output lines, so the solution's own prints are ignored. */
+export const RESULT_MARKER = "__LEETCODE_RESULT__";
+
+export const HARNESS_EXTENSIONS: Record<RunnableLanguage, string> = {
+  python: "py",
+  javascript: "js",
+  typescript: "ts"
+};
+
+const LANGUAGE_ALIASES: Record<string, RunnableLanguage> = {
+  python: "python",
+  python3: "python",
+  py: "python",
+  javascript: "javascript",
+  js: "javascript",
+  typescript: "typescript",
+  ts: "typescript"
+};
+
+/** Names LeetCode's Python environment has in scope without imports. */
+const PYTHON_PRELUDE = [
+  "from typing import *",
+  "from collections import *",
+  "from functools import *",
+  "from heapq import *",
+  "from itertools import *",
+  "from bisect import *",
+  "from math import *",
+  "import collections, functools, heapq, itertools, bisect, math, re, string"
+].join("\n");
+
+/** Fence language or file extension → runnable language, null for anything else. */
+export function runnableLanguage(lang: string): RunnableLanguage | null {
+  return LANGUAGE_ALIASES[lang.trim().toLowerCase()] ?? null;
+}
+
+export function codeBlocks(content: string): CodeBlock[] {
+  const blocks: CodeBlock[] = [];
+  const lines = content.split("\n");
+  let open: { lang: string; fence: string; line: number } | null = null;
+  lines.forEach((line, index) => {
+    const fence = line.match(/^\s*(```+|~~~+)\s*([\w+#-]*)/);
+    if (!fence) return;
+    if (!open) {
+      open = { lang: fence[2] ?? "", fence: fence[1] ?? "```", line: index };
+    } else if ((fence[1] ?? "").startsWith(open.fence) && !fence[2]) {
+      blocks.push({
+        lang: open.lang,
+        code: lines.slice(open.line + 1, index).join("\n"),
+        startLine: open.line,
+        endLine: index
+      });
+      open = null;
+    }
+  });
+  return blocks;
+}
+
+/** The fenced block that contains `line` (0-based), fences included. */
+export function codeBlockAtLine(content: string, line: number): CodeBlock | null {
+  return (
+    codeBlocks(content).find((block) => block.startLine <= line && line <= block.endLine) ?? null
+  );
+}
+
+/**
+ * A program that defines the solution, calls it on every case and prints one marked JSON
+ * line per case. Python calls `Solution().<name>`, JavaScript and TypeScript the
+ * top-level function, as in LeetCode's code templates.
+ */
+export function buildHarness(
+  language: RunnableLanguage,
+  code: string,
+  signature: ProblemSignature,
+  cases: unknown[][]
+): string {
+  const casesJson = JSON.stringify(JSON.stringify(cases));
+  const marker = JSON.stringify(RESULT_MARKER);
+  const outputIndex = signature.outputParam;
+
+  if (language === "python") {
+    const pick = outputIndex === undefined ? "" : `\n        _value = _args[${outputIndex}]`;
+    return `${PYTHON_PRELUDE}
+
+${code.trimEnd()}
+
+import json as _json, time as _time
+for _args in _json.loads(${casesJson}):
+    _start = _time.perf_counter()
+    try:
+        _value = Solution().${signature.name}(*_args)${pick}
+        _result = {"ok": True, "value": _value}
+    except Exception as _error:
+        _result = {"ok": False, "error": f"{type(_error).__name__}: {_error}"}
+    _result["ms"] = (_time.perf_counter() - _start) * 1000
+    print(${marker} + _json.dumps(_result, default=list), flush=True)
+`;
+  }
+
+  const pick = outputIndex === undefined ? "" : `\n      value = args[${outputIndex}];`;
+  return `${code.trimEnd()}
+
+;(() => {
+  for (const args of JSON.parse(${casesJson})) {
+    const start = performance.now();
+    let result;
+    try {
+      let value = ${signature.name}(...args);${pick}
+      result = { ok: true, value: value === undefined ? null : value };
+    } catch (error) {
+      result = { ok: false, error: String(error) };
+    }
+    result.ms = performance.now() - start;
+    console.log(${marker} + JSON.stringify(result));
+  }
+})();
+`;
+}
+
+/** Marked result lines from the harness output, in case order. */
+export function parseHarnessOutput(stdout: string): CaseOutcome[] {
+  const outcomes: CaseOutcome[] = [];
+  for (const line of stdout.split("\n")) {
+    if (!line.startsWith(RESULT_MARKER)) continue;
+    try {
+      outcomes.push(JSON.parse(line.slice(RESULT_MARKER.length)) as CaseOutcome);
+    } catch {
+      outcomes.push({ ok: false, error: line.slice(RESULT_MARKER.length) });
+    }
+  }
+  return outcomes;
+}
+
+/**
+ * Pair harness outcomes with the cases they belong to. Cases without an outcome did not
+ * run (the process timed out or crashed first); cases without an expected output are
+ * reported as unchecked.
+ */
+export function reportCases(
+  cases: TestCase[],
+  outcomes: CaseOutcome[],
+  signature: ProblemSignature
+): CaseReport[] {
+  return cases.map((testCase, index) => {
+    const outcome = outcomes[index];
+    const base = { input: testCase.input, expected: testCase.expected };
+    if (!outcome) return { ...base, status: "notRun" };
+    if (!outcome.ok) return { ...base, status: "error", error: outcome.error, ms: outcome.ms };
+    const actual = JSON.stringify(outcome.value ?? null);
+    const status: CaseStatus =
+      testCase.expected === undefined
+        ? "unchecked"
+        : matchesExpected(outcome.value, testCase.expected, signature.returnType)
+          ? "pass"
+          : "fail";
+    return { ...base, actual, status, ms: outcome.ms };
+  });
+}
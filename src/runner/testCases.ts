@@ -0,0 +1,156 @@
+/** Example test cases from problem metadata — no Obsidian imports (agent-runnable checks). */
+
+export interface ProblemSignature {
+  name: string;
+  params: Array<{ name: string; type: string }>;
+  returnType: string;
+  /** For `void` methods, the argument LeetCode checks after the call (modified in place). */
+  outputParam?: number;
+}
+
+export type SignatureResult =
+  | { kind: "ok"; signature: ProblemSignature }
+  /** No metadata, a design problem (class with several methods) or types like ListNode. */
+  | { kind: "missing" | "design" | "unsupported" };
+
+export interface TestCase {
+  /** Input lines as LeetCode lists them, one per parameter. */
+  input: string[];
+  args: unknown[];
+  /** Output from the description's example, when one lines up with this case. */
+  expected?: string;
+}
+
+type MetaData = {
+  name?: string;
+  params?: Array<{ name?: string; type?: string }>;
+  return?: { type?: string };
+  output?: { paramindex?: number };
+  classname?: string;
+  systemdesign?: boolean;
+};
+
+/** Types that map onto JSON values in every supported language. */
+const PLAIN_TYPES = new Set([
+  "integer",
+  "long",
+  "double",
+  "float",
+  "boolean",
+  "string",
+  "character",
+  "void"
+]);
+const FLOAT_TYPES = new Set(["double", "float"]);
+const FLOAT_TOLERANCE = 1e-5;
+const OUTPUT_LINE = /^\s*(?:Output|输出)\s*[:：]\s*(.+?)\s*$/;
+
+export function parseSignature(metaData: string | undefined): SignatureResult {
+  let meta: MetaData;
+  try {
+    meta = JSON.parse(metaData ?? "") as MetaData;
+  } catch {
+    return { kind: "missing" };
+  }
+  if (meta.systemdesign || meta.classname) return { kind: "design" };
+  if (!meta.name || !Array.isArray(meta.params)) return { kind: "missing" };
+
+  const params = meta.params.map((param, index) => ({
+    name: param.name ?? `arg${index}`,
+    type: param.type ?? ""
+  }));
+  const returnType = meta.return?.type ?? "void";
+  if (![...params.map((param) => param.type), returnType].every(isPlainType)) {
+    return { kind: "unsupported" };
+  }
+  return {
+    kind: "ok",
+    signature: {
+      name: meta.name,
+      params,
+      returnType,
+      outputParam: returnType === "void" ? (meta.output?.paramindex ?? 0) : undefined
+    }
+  };
+}
+
+/**
+ * The `Output:` values of the description's examples, in order. Works on the problem's
+ * HTML (both the `<pre>` and the newer example-block layout) and on plain text.
+ */
+export function parseExampleOutputs(content: string): string[] {
+  const text = content
+    .replace(/<br\s*\/?>|<\/(p|div|li|pre)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+  const outputs: string[] = [];
+  for (const line of text.split("\n")) {
+    const value = line.match(OUTPUT_LINE)?.[1];
+    if (value) outputs.push(value);
+  }
+  return outputs;
+}
+
+/** Split `exampleTestcases` into cases of one line per parameter and pair them with outputs. */
+export function buildTestCases(
+  exampleTestcases: string,
+  signature: ProblemSignature,
+  outputs: string[] = []
+): TestCase[] {
+  const lines = exampleTestcases.trimEnd().split("\n");
+  const size = Math.max(signature.params.length, 1);
+  const cases: TestCase[] = [];
+  for (let start = 0; start + size <= lines.length; start += size) {
+    const input = lines.slice(start, start + size).map((line) => line.trim());
+    cases.push({
+      input,
+      args: input.map(parseValue),
+      expected: outputs[cases.length]
+    });
+  }
+  return cases;
+}
+
+/** Compare a returned value with an expected output; floats within 1e-5. */
+export function matchesExpected(actual: unknown, expected: string, returnType: string): boolean {
+  const float = FLOAT_TYPES.has(baseType(returnType));
+  return deepEqual(actual, parseValue(expected), float);
+}
+
+/** LeetCode writes values as JSON; anything else is kept as a string. */
+export function parseValue(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function deepEqual(a: unknown, b: unknown, float: boolean): boolean {
+  if (typeof a === "number" && typeof b === "number") {
+    return float ? Math.abs(a - b) <= FLOAT_TOLERANCE : a === b;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => deepEqual(item, b[index], float));
+  }
+  return a === b;
+}
+
+function isPlainType(type: string): boolean {
+  return PLAIN_TYPES.has(baseType(type));
+}
+
+/** `list<list<integer>>` and `integer[][]` → `integer`. */
+function baseType(type: string): string {
+  let base = type.trim().toLowerCase();
+  for (;;) {
+    const next = base.replace(/\[\]$/, "").replace(/^list<(.+)>$/, "$1");
+    if (next === base) return base;
+    base = next;
+  }
+}
@@ -0,0 +1,59 @@
+import { type App, type FuzzyMatch, FuzzySuggestModal } from "obsidian";
+
+import type { ProblemSummary } from "../leetcode";
+
+export type SearchStrings = {
+  placeholder: string;
+  empty: string;
+  noteExists: string;
+  paidOnly: string;
+};
+
+/**
+ * Fuzzy search over the cached problem catalogue by number, title, slug and topic tag.
+ * Problems that already have a note are marked; choosing one hands it to `onChoose`.
+ */
+export class ProblemSearchModal extends FuzzySuggestModal<ProblemSummary> {
+  constructor(
+    app: App,
+    private readonly problems: ProblemSummary[],
+    private readonly existingSlugs: ReadonlySet<string>,
+    private readonly strings: SearchStrings,
+    private readonly onChoose: (problem: ProblemSummary) => void
+  ) {
+    super(app);
+    this.setPlaceholder(strings.placeholder);
+    this.emptyStateText = strings.empty;
+    this.limit = 50;
+  }
+
+  /** Open with `query` already typed in, e.g. text the link modal could not resolve. */
+  openWithQuery(query: string): void {
+    this.open();
+    if (!query) return;
+    this.inputEl.value = query;
+    this.inputEl.dispatchEvent(new Event("input"));
+  }
+
+  override getItems(): ProblemSummary[] {
+    return this.problems;
+  }
+
+  override getItemText(problem: ProblemSummary): string {
+    return [problem.number, problem.title, problem.slug, ...(problem.tags ?? [])].join(" ");
+  }
+
+  override renderSuggestion(match: FuzzyMatch<ProblemSummary>, el: HTMLElement): void {
+    const problem = match.item;
+    el.createDiv({ text: problem.number ? `${problem.number}. ${problem.title}` : problem.title });
+    const details = [problem.difficulty];
+    if (this.existingSlugs.has(problem.slug)) details.push(this.strings.noteExists);
+    if (problem.paidOnly) details.push(this.strings.paidOnly);
+    if (problem.tags?.length) details.push(problem.tags.join(", "));
+    el.createEl("small", { text: details.join(" · "), cls: "setting-item-description" });
+  }
+
+  override onChooseItem(problem: ProblemSummary): void {
+    this.onChoose(problem);
+  }
+}
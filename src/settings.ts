@@ -6,16 +6,51 @@ import {
 } from "obsidian";
 
 import { CookiePasteModal } from "./auth/CookiePasteModal";
+import type { PropertyOptions } from "./frontmatter";
 import type LeetCodeTemplatePlugin from "./main";
+import type { LeetCodeSite } from "./sites";
 
-export interface LeetCodeTemplateSettings {
+export interface LeetCodeTemplateSettings extends PropertyOptions {
   csrftoken: string;
   leetcodeSession: string;
   username: string | null;
+  site: LeetCodeSite;
   targetFolder: string;
   filenameTemplate: string;
+  templatePath: string;
   includeDescription: boolean;
+  downloadImages: boolean;
+  /** Folder for downloaded images; empty uses Obsidian's attachment location. */
+  imageFolder: string;
+  includeHints: boolean;
+  /** Comma-separated language slugs for the Starter code section of unsolved problems. */
+  starterCodeLanguages: string;
   insertAllSolutions: boolean;
+  /** Most accepted solutions imported per problem with insertAllSolutions; 0 = no limit. */
+  maxSolutions: number;
+  /**
+   * Comma-separated preferred language slugs: only these are imported, and their
+   * subsections come first in this order. Empty imports every language.
+   */
+  solutionLanguages: string;
+  groupSolutionsByLanguage: boolean;
+  markFastestSolution: boolean;
+  complexityAnnotations: boolean;
+  solutionsSince: string;
+  solutionsUntil: string;
+  solutionFiles: boolean;
+  importAttempts: boolean;
+  attemptDetails: boolean;
+  maxConcurrentRequests: number;
+  maxRetries: number;
+  cacheTtlHours: number;
+  autoDailyChallenge: boolean;
+  pythonCommand: string;
+  javascriptCommand: string;
+  typescriptCommand: string;
+  runTimeoutSeconds: number;
+  /** Local date of the last daily challenge run, so the automatic run happens once a day. */
+  lastDailyChallenge: string;
   language: "en" | "ru";
 }
 
@@ -23,10 +58,42 @@ export const DEFAULT_SETTINGS: LeetCodeTemplateSettings = {
   csrftoken: "",
   leetcodeSession: "",
   username: null,
+  site: "com",
   targetFolder: "",
   filenameTemplate: "{{number}}-{{slug}}",
+  templatePath: "",
   includeDescription: true,
+  downloadImages: false,
+  imageFolder: "",
+  includeHints: false,
+  starterCodeLanguages: "",
   insertAllSolutions: false,
+  maxSolutions: 20,
+  solutionLanguages: "",
+  groupSolutionsByLanguage: false,
+  markFastestSolution: false,
+  complexityAnnotations: false,
+  solutionsSince: "",
+  solutionsUntil: "",
+  solutionFiles: false,
+  importAttempts: false,
+  attemptDetails: false,
+  maxConcurrentRequests: 2,
+  maxRetries: 3,
+  cacheTtlHours: 168,
+  autoDailyChallenge: false,
+  pythonCommand: "python3",
+  javascriptCommand: "node",
+  typescriptCommand: "node --experimental-strip-types",
+  runTimeoutSeconds: 10,
+  lastDailyChallenge: "",
+  propertyId: true,
+  propertyAcceptanceRate: true,
+  propertyCreated: true,
+  propertySolved: true,
+  propertyStatus: true,
+  propertyLanguages: true,
+  propertyComplexity: true,
   language: "en"
 };
 
@@ -52,6 +119,20 @@ export class LeetCodeSettingTab extends PluginSettingTab {
           void this.bindAuthControls(setting);
         }
       },
+      {
+        name: "LeetCode site",
+        desc: "Which LeetCode to use. Switching requires logging in again.",
+        aliases: ["leetcode.cn", "China", "region"],
+        control: {
+          type: "dropdown",
+          key: "site",
+          defaultValue: "com",
+          options: {
+            com: "leetcode.com",
+            cn: "leetcode.cn"
+          }
+        }
+      },
       {
         name: "Notes folder",
         desc: "Target folder for generated notes (can be empty).",
@@ -70,6 +151,16 @@ export class LeetCodeSettingTab extends PluginSettingTab {
           placeholder: "{{number}}-{{slug}}"
         }
       },
+      {
+        name: "Note template",
+        desc: "Markdown file used as the note layout. Placeholders: {{frontmatter}}, {{title}}, {{number}}, {{difficulty}}, {{tags}}, {{link}}, {{description}}, {{similar}}, {{solutions}}, plus {{#if}}, {{#unless}} and {{#each}} blocks. Keep link in the frontmatter. Leave empty for the built-in layout.",
+        control: {
+          type: "file",
+          key: "templatePath",
+          placeholder: "Templates/LeetCode.md",
+          filter: (file) => file.extension === "md"
+        }
+      },
       {
         name: "Include description",
         desc: "Turn off to skip task description in the note.",
@@ -78,6 +169,40 @@ export class LeetCodeSettingTab extends PluginSettingTab {
           key: "includeDescription"
         }
       },
+      {
+        name: "Download description images",
+        desc: "Save images from the problem description into the vault and embed the local copies, so diagrams work offline. An image shared by several problems is stored once.",
+        control: {
+          type: "toggle",
+          key: "downloadImages"
+        }
+      },
+      {
+        name: "Image folder",
+        desc: "Folder for downloaded images. Empty uses the attachment location from Obsidian's Files and links settings.",
+        control: {
+          type: "text",
+          key: "imageFolder",
+          placeholder: "LeetCode/images"
+        }
+      },
+      {
+        name: "Include hints",
+        desc: "Add LeetCode's hints for the problem as collapsed callouts in a Hints section.",
+        control: {
+          type: "toggle",
+          key: "includeHints"
+        }
+      },
+      {
+        name: "Starter code languages",
+        desc: "For problems without accepted solutions, add a Starter code section with LeetCode's code template in these languages, comma-separated (python3, cpp, java). Empty adds none.",
+        control: {
+          type: "text",
+          key: "starterCodeLanguages",
+          placeholder: "python3, cpp"
+        }
+      },
       {
         name: "Insert all solutions",
         desc: "If enabled, add all accepted solutions (deduplicated).",
@@ -86,6 +211,213 @@ export class LeetCodeSettingTab extends PluginSettingTab {
           key: "insertAllSolutions"
         }
       },
+      {
+        type: "group",
+        heading: "Solutions",
+        items: [
+          {
+            name: "Maximum solutions",
+            desc: "Most accepted solutions imported per problem when inserting all solutions. 0 imports every one.",
+            control: {
+              type: "number",
+              key: "maxSolutions",
+              defaultValue: 20,
+              min: 0
+            }
+          },
+          {
+            name: "Preferred languages",
+            desc: "Only import solutions in these languages, comma-separated LeetCode slugs (python3, cpp, java). Their subsections come first, in this order. Empty imports all.",
+            control: {
+              type: "text",
+              key: "solutionLanguages",
+              placeholder: "python3, cpp"
+            }
+          },
+          {
+            name: "Group by language",
+            desc: "Put solutions under a ### subsection per language, and add new ones to their language's subsection.",
+            control: {
+              type: "toggle",
+              key: "groupSolutionsByLanguage"
+            }
+          },
+          {
+            name: "Mark fastest solution",
+            desc: "Add a 🏆 mark to the solution with the lowest runtime, moved when a faster one is imported.",
+            control: {
+              type: "toggle",
+              key: "markFastestSolution"
+            }
+          },
+          {
+            name: "Complexity notes",
+            desc: "Add Time and Space complexity under each solution. New notes get an estimate from the code; importing solutions opens a form to review it.",
+            control: {
+              type: "toggle",
+              key: "complexityAnnotations"
+            }
+          },
+          {
+            name: "Submitted from",
+            desc: "Only import solutions submitted on or after this date (YYYY-MM-DD). Empty for no limit.",
+            control: {
+              type: "text",
+              key: "solutionsSince",
+              placeholder: "2024-01-01"
+            }
+          },
+          {
+            name: "Submitted until",
+            desc: "Only import solutions submitted on or before this date (YYYY-MM-DD). Empty for no limit.",
+            control: {
+              type: "text",
+              key: "solutionsUntil",
+              placeholder: "2024-12-31"
+            }
+          }
+        ]
+      },
+      {
+        name: "Solutions as files",
+        desc: "Save each solution as a source file in a folder next to the note (e.g. LeetCode/1-two-sum/python3-123.py) and link it from Solutions instead of inlining the code.",
+        control: {
+          type: "toggle",
+          key: "solutionFiles"
+        }
+      },
+      {
+        name: "Import attempt history",
+        desc: "Add an Attempts section with every submission (status, language, runtime, time), including Wrong Answer and Time Limit Exceeded.",
+        control: {
+          type: "toggle",
+          key: "importAttempts"
+        }
+      },
+      {
+        name: "Failed attempt details",
+        desc: "Also store the failing test case and code of each failed attempt. Needs one extra request per attempt.",
+        control: {
+          type: "toggle",
+          key: "attemptDetails"
+        }
+      },
+      {
+        name: "Concurrent requests",
+        desc: "Maximum LeetCode requests in flight at once. Lower it if bulk operations get rate limited.",
+        control: {
+          type: "number",
+          key: "maxConcurrentRequests",
+          defaultValue: 2,
+          min: 1,
+          max: 8
+        }
+      },
+      {
+        name: "Retries on rate limit",
+        desc: "How many times to retry a request after HTTP 429 or 5xx, with exponential backoff.",
+        control: {
+          type: "number",
+          key: "maxRetries",
+          defaultValue: 3,
+          min: 0,
+          max: 10
+        }
+      },
+      {
+        name: "Cache lifetime (hours)",
+        desc: "How long cached problem data is used before refetching. Stale data is still used offline.",
+        control: {
+          type: "number",
+          key: "cacheTtlHours",
+          defaultValue: 168,
+          min: 0
+        }
+      },
+      {
+        name: "Daily challenge on startup",
+        desc: "Once a day, create the note for today's daily challenge when Obsidian starts.",
+        control: {
+          type: "toggle",
+          key: "autoDailyChallenge"
+        }
+      },
+      {
+        type: "group",
+        heading: "Run examples locally",
+        items: [
+          {
+            name: "Python command",
+            desc: "Interpreter for Python solutions; the solution file is passed as the last argument.",
+            control: { type: "text", key: "pythonCommand", placeholder: "python3" }
+          },
+          {
+            name: "JavaScript command",
+            desc: "Runtime for JavaScript solutions.",
+            control: { type: "text", key: "javascriptCommand", placeholder: "node" }
+          },
+          {
+            name: "TypeScript command",
+            desc: "Runtime for TypeScript solutions, e.g. node --experimental-strip-types, deno run or bun.",
+            control: {
+              type: "text",
+              key: "typescriptCommand",
+              placeholder: "node --experimental-strip-types"
+            }
+          },
+          {
+            name: "Time limit (seconds)",
+            desc: "Stop a solution that runs longer than this; cases it did not reach are shown as not run.",
+            control: {
+              type: "number",
+              key: "runTimeoutSeconds",
+              defaultValue: 10,
+              min: 1
+            }
+          }
+        ]
+      },
+      {
+        type: "group",
+        heading: "Note properties",
+        items: [
+          {
+            name: "Problem ID",
+            desc: "Internal LeetCode question ID (id).",
+            control: { type: "toggle", key: "propertyId" }
+          },
+          {
+            name: "Acceptance rate",
+            desc: "Percent of accepted submissions (acceptance_rate).",
+            control: { type: "toggle", key: "propertyAcceptanceRate" }
+          },
+          {
+            name: "Created date",
+            desc: "Date the note was created (created).",
+            control: { type: "toggle", key: "propertyCreated" }
+          },
+          {
+            name: "Solved date",
+            desc: "Date of the earliest imported accepted solution (solved).",
+            control: { type: "toggle", key: "propertySolved" }
+          },
+          {
+            name: "Status",
+            desc: "Solved, attempted or todo (status).",
+            control: { type: "toggle", key: "propertyStatus" }
+          },
+          {
+            name: "Languages",
+            desc: "Languages of imported solutions (languages).",
+            control: { type: "toggle", key: "propertyLanguages" }
+          },
+          {
+            name: "Complexity",
+            desc: "Best time and space complexity among the solutions (time_complexity, space_complexity).",
+            control: { type: "toggle", key: "propertyComplexity" }
+          }
+        ]
+      },
       {
         name: "Language",
         desc: "UI language for plugin texts and template (en/ru).",
@@ -0,0 +1,98 @@
+/** LeetCode site endpoints — no Obsidian imports (agent-runnable checks). */
+
+export type LeetCodeSite = "com" | "cn";
+
+export interface SiteConfig {
+  origin: string;
+  graphqlUrl: string;
+  loginUrl: string;
+  /** URLs whose auth cookies are read after login and cleared on logout. */
+  cookieUrls: string[];
+  hostnames: string[];
+  /** Electron session partition for the embedded login window. */
+  partition: string;
+}
+
+const SITES: Record<LeetCodeSite, SiteConfig> = {
+  com: {
+    origin: "https://leetcode.com",
+    graphqlUrl: "https://leetcode.com/graphql",
+    loginUrl: "https://leetcode.com/accounts/login/",
+    cookieUrls: ["https://leetcode.com/", "https://www.leetcode.com/"],
+    hostnames: ["leetcode.com", "www.leetcode.com"],
+    partition: "persist:leetcode-template"
+  },
+  cn: {
+    origin: "https://leetcode.cn",
+    graphqlUrl: "https://leetcode.cn/graphql/",
+    loginUrl: "https://leetcode.cn/accounts/login/",
+    cookieUrls: ["https://leetcode.cn/", "https://www.leetcode.cn/"],
+    hostnames: ["leetcode.cn", "www.leetcode.cn"],
+    partition: "persist:leetcode-template-cn"
+  }
+};
+
+export function getSiteConfig(site: LeetCodeSite = "com"): SiteConfig {
+  return SITES[site] ?? SITES.com;
+}
+
+export function problemUrl(site: LeetCodeSite | undefined, slug: string): string {
+  return `${getSiteConfig(site).origin}/problems/${slug}/`;
+}
+
+export function submissionUrl(site: LeetCodeSite | undefined, submissionId: string): string {
+  return `${getSiteConfig(site).origin}/submissions/detail/${submissionId}/`;
+}
+
+export function contestUrl(site: LeetCodeSite | undefined, contestSlug: string): string {
+  return `${getSiteConfig(site).origin}/contest/${contestSlug}/`;
+}
+
+/** Problem link on either host (leetcode-cn.com is the old China domain). */
+const PROBLEM_LINK = /(?:^|[/.])leetcode(?:\.com|\.cn|-cn\.com)\/problems\/([a-z0-9-]+)/i;
+
+export function parseProblemLink(link: string): { site: LeetCodeSite; slug: string } | null {
+  const match = link.match(PROBLEM_LINK);
+  const slug = match?.[1];
+  if (!match || !slug) return null;
+  const site: LeetCodeSite = /leetcode\.com\//i.test(match[0]) ? "com" : "cn";
+  return { site, slug };
+}
+
+export function extractSlug(link: string): string | null {
+  return parseProblemLink(link)?.slug ?? null;
+}
+
+const CONTEST_LINK = /(?:^|[/.])leetcode(?:\.com|\.cn|-cn\.com)\/contest\/([a-z0-9-]+)/i;
+
+/**
+ * Contest slug from a contest (or contest problem) link, a bare slug such as
+ * `weekly-contest-400`, or a title such as `Weekly Contest 400`.
+ */
+export function extractContestSlug(input: string): string | null {
+  const linked = input.match(CONTEST_LINK)?.[1];
+  if (linked) return linked.toLowerCase();
+  const slug = input.trim().toLowerCase().replace(/\s+/g, "-");
+  return /^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(slug) && /contest/.test(slug) ? slug : null;
+}
+
+export type ProblemListKind = "list" | "studyPlan";
+
+const LIST_LINK =
+  /(?:^|[/.])leetcode(?:\.com|\.cn|-cn\.com)\/(problem-list|list|studyplan)\/([\w-]+)/i;
+
+/** A problem list (`/problem-list/<id>/`, `/list/<id>/`) or study plan (`/studyplan/<slug>/`). */
+export function parseListLink(link: string): { kind: ProblemListKind; slug: string } | null {
+  const match = link.match(LIST_LINK);
+  const slug = match?.[2];
+  if (!match || !slug) return null;
+  return { kind: match[1]?.toLowerCase() === "studyplan" ? "studyPlan" : "list", slug };
+}
+
+export function listUrl(
+  site: LeetCodeSite | undefined,
+  list: { kind: ProblemListKind; slug: string }
+): string {
+  const path = list.kind === "studyPlan" ? "studyplan" : "problem-list";
+  return `${getSiteConfig(site).origin}/${path}/${list.slug}/`;
+}
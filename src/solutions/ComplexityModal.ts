@@ -0,0 +1,97 @@
+import { type App, Modal, Setting } from "obsidian";
+
+import type { SubmissionSolution } from "../leetcode";
+import { withEstimatedComplexity } from "./complexity";
+
+export type ComplexityStrings = {
+  title: string;
+  intro: string;
+  time: string;
+  space: string;
+  code: string;
+  save: string;
+  skip: string;
+};
+
+/**
+ * Asks for the time and space complexity of each imported solution, pre-filled with the
+ * heuristic estimate. Skipping or closing imports the solutions without complexity.
+ */
+export class ComplexityModal extends Modal {
+  private readonly edited: SubmissionSolution[];
+  private resolve: ((solutions: SubmissionSolution[]) => void) | null = null;
+
+  constructor(
+    app: App,
+    private readonly solutions: SubmissionSolution[],
+    private readonly strings: ComplexityStrings
+  ) {
+    super(app);
+    this.edited = solutions.map((solution) => ({ ...withEstimatedComplexity(solution) }));
+  }
+
+  /** Open the form; resolves with the solutions to import once it is saved or skipped. */
+  prompt(): Promise<SubmissionSolution[]> {
+    return new Promise((resolve) => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  override onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    new Setting(contentEl).setName(this.strings.title).setHeading();
+    contentEl.createEl("p", { text: this.strings.intro, cls: "setting-item-description" });
+
+    for (const solution of this.edited) {
+      const time = solution.timestamp
+        ? new Date(solution.timestamp * 1000).toLocaleString()
+        : "";
+      new Setting(contentEl)
+        .setName([solution.lang, solution.runtime, time].filter(Boolean).join(" · "))
+        .setHeading();
+      const details = contentEl.createEl("details");
+      details.createEl("summary", { text: this.strings.code });
+      details.createEl("pre").createEl("code", { text: solution.code.trimEnd() });
+
+      new Setting(contentEl).setName(this.strings.time).addText((text) =>
+        text.setValue(solution.timeComplexity ?? "").onChange((value) => {
+          solution.timeComplexity = value.trim();
+        })
+      );
+      new Setting(contentEl).setName(this.strings.space).addText((text) =>
+        text.setValue(solution.spaceComplexity ?? "").onChange((value) => {
+          solution.spaceComplexity = value.trim();
+        })
+      );
+    }
+
+    new Setting(contentEl)
+      .addButton((btn) =>
+        btn
+          .setButtonText(this.strings.save)
+          .setCta()
+          .onClick(() => this.finish(this.edited))
+      )
+      .addButton((btn) =>
+        btn.setButtonText(this.strings.skip).onClick(() => this.finish(this.solutions))
+      );
+  }
+
+  override onClose(): void {
+    this.contentEl.empty();
+    this.settle(this.solutions);
+  }
+
+  private finish(solutions: SubmissionSolution[]): void {
+    this.settle(solutions);
+    this.close();
+  }
+
+  private settle(solutions: SubmissionSolution[]): void {
+    const resolve = this.resolve;
+    this.resolve = null;
+    resolve?.(solutions);
+  }
+}
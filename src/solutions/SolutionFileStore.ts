@@ -0,0 +1,64 @@
+import { type App, normalizePath, TFile, TFolder } from "obsidian";
+
+import type { SubmissionSolution } from "../leetcode";
+import { solutionFileName, solutionFolderPath } from "./solutionFiles";
+
+export interface SolutionFileHost {
+  app: App;
+  ensureFolder(path: string): Promise<void>;
+}
+
+/**
+ * Writes accepted solutions as source files into a folder next to the problem note
+ * and produces links to them for the Solutions section.
+ */
+export class SolutionFileStore {
+  constructor(private readonly plugin: SolutionFileHost) {}
+
+  /**
+   * Write solutions whose code is not yet stored, either in the problem folder or in
+   * `knownCodes` (code already inlined in the note). Returns the newly written ones,
+   * keyed by submission id, with a link relative to the note.
+   */
+  async writeSolutions(
+    note: TFile,
+    solutions: SubmissionSolution[],
+    knownCodes: string[] = []
+  ): Promise<Map<string, string>> {
+    const { vault, fileManager } = this.plugin.app;
+    const folderPath = normalizePath(solutionFolderPath(note.path));
+    const known = new Set([...knownCodes, ...(await this.readCodes(folderPath))]);
+    const links = new Map<string, string>();
+
+    for (const solution of solutions) {
+      const code = solution.code.trim();
+      if (!code || known.has(code)) continue;
+      known.add(code);
+
+      await this.plugin.ensureFolder(folderPath);
+      const path = normalizePath(`${folderPath}/${solutionFileName(solution)}`);
+      const existing = vault.getAbstractFileByPath(path);
+      const file =
+        existing instanceof TFile ? existing : await vault.create(path, `${code}\n`);
+      links.set(solution.id, fileManager.generateMarkdownLink(file, note.path));
+    }
+    return links;
+  }
+
+  /** Code of every file already in the note's solution folder. */
+  async storedCodes(note: TFile): Promise<string[]> {
+    return this.readCodes(normalizePath(solutionFolderPath(note.path)));
+  }
+
+  private async readCodes(folderPath: string): Promise<string[]> {
+    const folder = this.plugin.app.vault.getAbstractFileByPath(folderPath);
+    if (!(folder instanceof TFolder)) return [];
+    const codes: string[] = [];
+    for (const child of folder.children) {
+      if (child instanceof TFile) {
+        codes.push((await this.plugin.app.vault.cachedRead(child)).trim());
+      }
+    }
+    return codes;
+  }
+}
@@ -0,0 +1,284 @@
+/** Complexity notes for solutions — no Obsidian imports (agent-runnable checks). */
+
+export interface Complexity {
+  time: string;
+  space: string;
+}
+
+/** Languages whose blocks are set by indentation rather than braces. */
+const INDENTED_LANGUAGES = new Set(["python", "python3", "pandas"]);
+/** Languages with `#` line comments. */
+const HASH_COMMENT_LANGUAGES = new Set(["python", "python3", "pandas", "ruby", "bash", "elixir"]);
+
+const SORT_CALL = anyOf([
+  String.raw`\bsorted\s*\(`,
+  String.raw`\bsort\s*\(`,
+  String.raw`\.sort\s*\(`,
+  String.raw`\bsort_(by|unstable)\b`,
+  String.raw`\b(Arrays|Collections)\.sort\b`,
+  String.raw`\bsort\.\w+\s*\(`
+]);
+const HEAP_USE = /\bheapq\b|\bheappush\b|PriorityQueue|priority_queue|BinaryHeap|\bheap\.Push\b/;
+const HALVING = />>=\s*1\b|\/\/=\s*2\b|\/=\s*2\b|\bmid\b|\bmiddle\b/;
+const MEMO = /\bmemo\w*|\bcache\b|@cache|lru_cache|\bdp\b/;
+/** Allocations that grow with the input. */
+const COLLECTION = anyOf([
+  String.raw`=\s*\[`,
+  String.raw`=\s*\{\s*\}`,
+  String.raw`\b(set|dict|list|deque|defaultdict|Counter)\s*\(`,
+  String.raw`\bnew\s+\w+`,
+  // Declarations only: `vector<int>& nums)` is the input, not an allocation.
+  String.raw`\b(vector|(unordered_)?(map|set))\s*<[^>]*>+\s*\w+\s*[;({=]`,
+  String.raw`\bmake\s*\(`,
+  String.raw`\b(Vec|HashMap|HashSet)::|\bvec!`,
+  String.raw`\.(push|append|add|put)\s*\(`
+]);
+/** Two-dimensional tables, as in grid DP. */
+const GRID = anyOf([
+  String.raw`\[\s*\[[^\]]*\]\s*\*`,
+  String.raw`\[\s*\[.*\bfor\b.*\bfor\b`,
+  String.raw`vector\s*<\s*vector\s*<`,
+  String.raw`\bnew\s+\w+\s*(\[[^\]]*\]\s*){2}`,
+  String.raw`\[\]\[\]`,
+  String.raw`Array\.from\([^)]*(Array|fill)`
+]);
+/** Group 1 is the indentation, group 2 the function name. */
+const INDENTED_DEFINITION = /^([ \t]*)def\s+(\w+)\s*\(/gm;
+/**
+ * Keyword definitions (group 2), C-style signatures followed by a body (group 3), or
+ * functions assigned to a variable (group 4).
+ */
+const BRACED_DEFINITION = anyOf(
+  [
+    String.raw`()\b(?:function|fun|fn|func|def)\s+(\w+)`,
+    String.raw`\b(\w+)\s*\([^(){};]*\)\s*(?:const\s*)?(?:->\s*[\w<>:[\], ]+)?\{`,
+    String.raw`\b(?:var|let|const)\s+(\w+)\s*=\s*(?:function\b|\([^()]*\)\s*=>)`
+  ],
+  "g"
+);
+const KEYWORDS = new Set(["if", "for", "while", "switch", "catch", "return", "sizeof", "else"]);
+
+/** `Time: O(n) · Space: O(1)`, the line stored under a solution's details line. */
+export function formatComplexityLine(complexity: Partial<Complexity>): string {
+  const parts: string[] = [];
+  if (complexity.time?.trim()) parts.push(`Time: ${complexity.time.trim()}`);
+  if (complexity.space?.trim()) parts.push(`Space: ${complexity.space.trim()}`);
+  return parts.join(" · ");
+}
+
+/** Reads a line written by formatComplexityLine; null for any other line. */
+export function parseComplexityLine(line: string): Partial<Complexity> | null {
+  if (!/^\s*(Time|Space):/.test(line)) return null;
+  const result: Partial<Complexity> = {};
+  for (const part of line.split("·")) {
+    const match = part.trim().match(/^(Time|Space):\s*(.+)$/);
+    if (!match?.[2]) return null;
+    result[match[1] === "Time" ? "time" : "space"] = match[2].trim();
+  }
+  return result;
+}
+
+/** Every complexity line in a note, skipping code blocks. */
+export function noteComplexities(content: string): Array<Partial<Complexity>> {
+  const complexities: Array<Partial<Complexity>> = [];
+  let inFence = false;
+  for (const line of content.split("\n")) {
+    if (/^\s*```/.test(line)) inFence = !inFence;
+    const complexity = inFence ? null : parseComplexityLine(line);
+    if (complexity) complexities.push(complexity);
+  }
+  return complexities;
+}
+
+/**
+ * Order of growth for comparing notations: polynomial degree (every variable counts,
+ * so `O(n·m)` ranks with `O(n^2)`, and a sum ranks as its largest term) plus half a step
+ * per log factor; exponentials and factorials rank above any polynomial. Unreadable
+ * notations rank last.
+ */
+export function complexityRank(notation: string): number {
+  const text = notation.toLowerCase().replace(/\s+/g, "").replace(/^o\((.*)\)$/, "$1");
+  if (!text) return Infinity;
+  if (text.includes("!")) return 1000;
+  if (/\d\^[a-z]/.test(text)) return 500;
+  return Math.max(...text.split("+").map(termRank));
+}
+
+function termRank(term: string): number {
+  const logs = (term.match(/log/g) ?? []).length;
+  const rest = term.replace(/log\(?[a-z0-9_]*\)?/g, "");
+  // Variables are single letters; words mean this is not a notation.
+  if (/[a-z]{2,}/.test(rest)) return Infinity;
+  let degree = 0;
+  for (const match of rest.matchAll(/([a-z])(?:\^(\d+))?/g)) {
+    degree += match[2] ? Number(match[2]) : 1;
+  }
+  if (degree === 0 && logs === 0 && rest.replace(/[()*·]/g, "") !== "1") return Infinity;
+  return degree * 10 + logs * 5;
+}
+
+/** The lowest time complexity, then the lowest space; null when none has a time. */
+export function bestComplexity(complexities: Array<Partial<Complexity>>): Complexity | null {
+  let best: Complexity | null = null;
+  for (const { time = "", space = "" } of complexities) {
+    if (!time.trim() || complexityRank(time) === Infinity) continue;
+    if (
+      !best ||
+      complexityRank(time) < complexityRank(best.time) ||
+      (complexityRank(time) === complexityRank(best.time) &&
+        complexityRank(space) < complexityRank(best.space))
+    ) {
+      best = { time: time.trim(), space: space.trim() };
+    }
+  }
+  return best;
+}
+
+/** The solution with the estimate filled in where no complexity is set yet. */
+export function withEstimatedComplexity<
+  T extends { code: string; lang?: string; timeComplexity?: string; spaceComplexity?: string }
+>(solution: T): T {
+  if (solution.timeComplexity && solution.spaceComplexity) return solution;
+  const estimate = estimateComplexity(solution.code, solution.lang);
+  return {
+    ...solution,
+    timeComplexity: solution.timeComplexity || estimate.time,
+    spaceComplexity: solution.spaceComplexity || estimate.space
+  };
+}
+
+/**
+ * A first guess from the code's shape: loop nesting, recursion (branching or with
+ * halving), sorting and heap calls, and the collections it allocates. Meant to be
+ * reviewed, not trusted.
+ */
+export function estimateComplexity(code: string, lang = ""): Complexity {
+  const language = lang.trim().toLowerCase().replace(/\s+/g, "");
+  const source = stripCommentsAndStrings(code, language);
+  const indented = INDENTED_LANGUAGES.has(language);
+  const depth = indented ? indentedLoopDepth(source) : bracedLoopDepth(source);
+  const halving = HALVING.test(source);
+  const recursion = findRecursion(source, indented);
+
+  const time: string[] = [polynomial(depth, halving)];
+  if (SORT_CALL.test(source) || (HEAP_USE.test(source) && depth > 0)) time.push("O(n log n)");
+  if (recursion) time.push(recursionTime(recursion.branches, halving, MEMO.test(source)));
+
+  const space = ["O(1)"];
+  if (GRID.test(source)) space.push("O(n^2)");
+  else if (COLLECTION.test(source)) space.push("O(n)");
+  if (recursion) space.push(halving && recursion.branches === 1 ? "O(log n)" : "O(n)");
+
+  return { time: slowest(time), space: slowest(space) };
+}
+
+/** Divide and conquer for branching calls that halve, memoized search, or plain branching. */
+function recursionTime(branches: number, halving: boolean, memoized: boolean): string {
+  if (branches === 1) return halving ? "O(log n)" : "O(n)";
+  if (halving) return "O(n log n)";
+  return memoized ? "O(n)" : "O(2^n)";
+}
+
+/** Nested loops; with halving, the innermost loop is taken to be logarithmic. */
+function polynomial(depth: number, halving: boolean): string {
+  if (depth === 0) return "O(1)";
+  if (!halving) return depth === 1 ? "O(n)" : `O(n^${depth})`;
+  if (depth === 1) return "O(log n)";
+  return depth === 2 ? "O(n log n)" : `O(n^${depth - 1} log n)`;
+}
+
+function anyOf(patterns: string[], flags = ""): RegExp {
+  return new RegExp(patterns.join("|"), flags);
+}
+
+function slowest(notations: string[]): string {
+  return notations.reduce((a, b) => (complexityRank(b) > complexityRank(a) ? b : a));
+}
+
+function stripCommentsAndStrings(code: string, language: string): string {
+  let source = code
+    .replace(/\/\*[\s\S]*?\*\//g, "")
+    .replace(/("""|''')[\s\S]*?\1/g, '""')
+    .replace(/"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|`(?:\\.|[^`\\])*`/g, '""');
+  source = HASH_COMMENT_LANGUAGES.has(language)
+    ? source.replace(/#.*$/gm, "")
+    : source.replace(/\/\/.*$/gm, "");
+  return source;
+}
+
+/** Deepest nesting of `for`/`while` blocks, counting comprehension loops on a line. */
+function indentedLoopDepth(source: string): number {
+  const stack: number[] = [];
+  let max = 0;
+  for (const line of source.split("\n")) {
+    if (!line.trim()) continue;
+    const indent = line.length - line.trimStart().length;
+    while (stack.length > 0 && (stack[stack.length - 1] ?? 0) >= indent) stack.pop();
+    const statement = line.trim();
+    const header = /^(async\s+)?(for|while)\b/.test(statement);
+    const inline = (statement.match(/\bfor\b/g) ?? []).length - (header ? 1 : 0);
+    max = Math.max(max, stack.length + (header ? 1 : 0) + Math.max(inline, 0));
+    if (header) stack.push(indent);
+  }
+  return max;
+}
+
+/** Deepest nesting of loops in brace languages; a loop without braces nests one statement. */
+function bracedLoopDepth(source: string): number {
+  const blocks: boolean[] = [];
+  let pendingLoop = false;
+  let parens = 0;
+  let max = 0;
+  const tokens = source.match(/\b(for|while|foreach|loop)\b|\.forEach\s*\(|[{}();]/g) ?? [];
+  for (const token of tokens) {
+    if (token === "(") parens++;
+    else if (token === ")") parens = Math.max(parens - 1, 0);
+    else if (token === "{") {
+      blocks.push(pendingLoop);
+      pendingLoop = false;
+    } else if (token === "}") blocks.pop();
+    else if (token === ";") {
+      if (parens === 0) pendingLoop = false;
+    } else {
+      if (token.startsWith(".forEach")) parens++;
+      const depth = blocks.filter(Boolean).length + 1 + (pendingLoop ? 1 : 0);
+      max = Math.max(max, depth);
+      pendingLoop = true;
+    }
+  }
+  return max;
+}
+
+/** The first function that calls itself, with the number of call sites in its body. */
+function findRecursion(source: string, indented: boolean): { branches: number } | null {
+  const definition = indented ? INDENTED_DEFINITION : BRACED_DEFINITION;
+  for (const match of source.matchAll(definition)) {
+    const name = match[2] ?? match[3] ?? match[4];
+    if (!name || KEYWORDS.has(name)) continue;
+    const start = (match.index ?? 0) + match[0].length;
+    const body = indented
+      ? indentedBody(source, start, match[1] ?? "")
+      : bracedBody(source, source.indexOf("{", (match.index ?? 0) + (match[0].length - 1)));
+    const calls = (body.match(new RegExp(`\\b${name}\\s*\\(`, "g")) ?? []).length;
+    if (calls > 0) return { branches: calls };
+  }
+  return null;
+}
+
+function indentedBody(source: string, start: number, indent: string): string {
+  const lines = source.slice(start).split("\n").slice(1);
+  const end = lines.findIndex(
+    (line) => line.trim() !== "" && line.length - line.trimStart().length <= indent.length
+  );
+  return (end === -1 ? lines : lines.slice(0, end)).join("\n");
+}
+
+function bracedBody(source: string, open: number): string {
+  if (open === -1) return "";
+  let depth = 0;
+  for (let i = open; i < source.length; i++) {
+    if (source[i] === "{") depth++;
+    else if (source[i] === "}" && --depth === 0) return source.slice(open + 1, i);
+  }
+  return source.slice(open + 1);
+}
@@ -0,0 +1,46 @@
+/** Fastest solution mark — no Obsidian imports (agent-runnable checks). */
+
+const MARK = "🏆";
+const MARK_SEGMENT = new RegExp(`\\s*·\\s*${MARK}[^·]*$`);
+type Candidate = { index: number; line: string; runtime: number; percentile: number };
+
+const RUNTIME = /Runtime:\s*([0-9]+(?:\.[0-9]+)?)\s*ms(?:\s*\(beats\s*([0-9]+(?:\.[0-9]+)?)%\))?/;
+
+/** `beats 87.3%`; percentiles arrive with many decimals. */
+export function formatPercentile(value: number | undefined): string {
+  if (value === undefined) return "";
+  return `beats ${parseFloat(value.toFixed(1))}%`;
+}
+
+/**
+ * Move the `· 🏆 label` mark to the details line of the fastest solution in `section`:
+ * lowest runtime, then highest runtime percentile. Marks are only set when at least two
+ * solutions have a runtime, so there is something to compare.
+ */
+export function markFastestSolution(section: string, label: string): string {
+  const lines = section.split("\n");
+  const candidates: Candidate[] = [];
+  let inFence = false;
+  lines.forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    if (inFence) return;
+    const cleaned = line.replace(MARK_SEGMENT, "");
+    lines[index] = cleaned;
+    const match = cleaned.includes("·") ? cleaned.match(RUNTIME) : null;
+    if (!match) return;
+    candidates.push({
+      index,
+      line: cleaned,
+      runtime: Number(match[1]),
+      percentile: match[2] ? Number(match[2]) : -1
+    });
+  });
+
+  if (candidates.length >= 2) {
+    const best = candidates.reduce((a, b) =>
+      b.runtime < a.runtime || (b.runtime === a.runtime && b.percentile > a.percentile) ? b : a
+    );
+    lines[best.index] = `${best.line} · ${MARK} ${label}`;
+  }
+  return lines.join("\n");
+}
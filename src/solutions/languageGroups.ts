@@ -0,0 +1,104 @@
+/** Per-language Solutions subsections — no Obsidian imports (agent-runnable checks). */
+
+/** One formatted solution (details line plus code or link) and its language heading. */
+export interface LanguageBlock {
+  lang: string;
+  text: string;
+}
+
+/** Key for comparing languages: `Python 3` and `python3` are the same subsection. */
+export function languageKey(lang: string): string {
+  return lang.trim().toLowerCase().replace(/\s+/g, "");
+}
+
+/**
+ * Blocks grouped by language: languages from `preferred` first, in that order, then the
+ * rest in order of first appearance.
+ */
+export function groupByLanguage(
+  blocks: LanguageBlock[],
+  preferred: string[] = []
+): Array<{ lang: string; blocks: LanguageBlock[] }> {
+  const groups = new Map<string, { lang: string; blocks: LanguageBlock[] }>();
+  for (const block of blocks) {
+    const key = languageKey(block.lang);
+    const group = groups.get(key) ?? { lang: block.lang, blocks: [] };
+    group.blocks.push(block);
+    groups.set(key, group);
+  }
+  return [...groups.values()]
+    .map((group, index) => ({ group, index, rank: languageRank(group.lang, preferred) }))
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .map(({ group }) => group);
+}
+
+/** `### lang` subsections with their solutions, separated by blank lines. */
+export function formatLanguageSubsections(
+  blocks: LanguageBlock[],
+  preferred: string[] = []
+): string {
+  return groupByLanguage(blocks, preferred)
+    .map((group) => [`### ${group.lang}`, ...group.blocks.map((block) => block.text)].join("\n\n"))
+    .join("\n\n");
+}
+
+/**
+ * Add `blocks` to an existing Solutions section: each goes to the end of the `###`
+ * subsection for its language. A missing subsection is created before the first one
+ * that ranks after it in `preferred`, or at the end of the section.
+ */
+export function insertIntoLanguageSubsections(
+  section: string,
+  blocks: LanguageBlock[],
+  preferred: string[] = []
+): string {
+  const { preamble, subsections } = splitSubsections(section);
+  for (const group of groupByLanguage(blocks, preferred)) {
+    const texts = group.blocks.map((block) => block.text).join("\n\n");
+    const key = languageKey(group.lang);
+    const existing = subsections.find((subsection) => languageKey(subsection.lang) === key);
+    if (existing) {
+      existing.text = `${existing.text.trimEnd()}\n\n${texts}`;
+      continue;
+    }
+    const rank = languageRank(group.lang, preferred);
+    const created = { lang: group.lang, text: `### ${group.lang}\n\n${texts}` };
+    const before = subsections.findIndex(
+      (subsection) => languageRank(subsection.lang, preferred) > rank
+    );
+    if (before === -1) subsections.push(created);
+    else subsections.splice(before, 0, created);
+  }
+  return [preamble, ...subsections.map((subsection) => subsection.text)]
+    .map((part) => part.trimEnd())
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+function languageRank(lang: string, preferred: string[]): number {
+  const index = preferred.map(languageKey).indexOf(languageKey(lang));
+  return index === -1 ? preferred.length : index;
+}
+
+/** Text before the first `###` heading and each subsection from its heading on. */
+function splitSubsections(section: string): {
+  preamble: string;
+  subsections: Array<{ lang: string; text: string }>;
+} {
+  const preamble: string[] = [];
+  const subsections: Array<{ lang: string; lines: string[] }> = [];
+  let inFence = false;
+  for (const line of section.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const heading = inFence ? null : line.match(/^###\s+(.+?)\s*$/);
+    if (heading) {
+      subsections.push({ lang: heading[1] ?? "", lines: [line] });
+    } else {
+      (subsections[subsections.length - 1]?.lines ?? preamble).push(line);
+    }
+  }
+  return {
+    preamble: preamble.join("\n"),
+    subsections: subsections.map(({ lang, lines }) => ({ lang, text: lines.join("\n") }))
+  };
+}
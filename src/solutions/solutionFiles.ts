@@ -0,0 +1,74 @@
+/** Naming for solution source files — no Obsidian imports (agent-runnable checks). */
+
+import type { SubmissionSolution } from "../leetcode";
+
+/** LeetCode language slugs (`lang.name` of a submission) to file extensions. */
+const EXTENSIONS: Record<string, string> = {
+  bash: "sh",
+  c: "c",
+  cpp: "cpp",
+  csharp: "cs",
+  dart: "dart",
+  elixir: "ex",
+  erlang: "erl",
+  golang: "go",
+  go: "go",
+  java: "java",
+  javascript: "js",
+  kotlin: "kt",
+  mssql: "sql",
+  mysql: "sql",
+  oraclesql: "sql",
+  pandas: "py",
+  php: "php",
+  postgresql: "sql",
+  python: "py",
+  python3: "py",
+  racket: "rkt",
+  ruby: "rb",
+  rust: "rs",
+  scala: "scala",
+  swift: "swift",
+  typescript: "ts"
+};
+
+const CODE_EXTENSIONS = new Set([...Object.values(EXTENSIONS), "txt"]);
+
+/** Wiki or Markdown link whose target ends in a code file extension. */
+const FILE_LINK = /\[\[([^\]|#]+?)\.(\w+)(?:[|#][^\]]*)?\]\]|\]\(<?([^)>]+?)\.(\w+)>?\)/;
+
+export function extensionForLanguage(lang: string | undefined): string {
+  const key = (lang ?? "").trim().toLowerCase().replace(/\s+/g, "");
+  return EXTENSIONS[key] ?? "txt";
+}
+
+/** File extension of a solution file link on `line`, or null when there is none. */
+export function solutionLinkExtension(line: string): string | null {
+  const match = line.match(FILE_LINK);
+  const extension = (match?.[2] ?? match?.[4] ?? "").toLowerCase();
+  return CODE_EXTENSIONS.has(extension) ? extension : null;
+}
+
+/** Link target (`folder/python3-123.py`) of a solution file link on `line`, or null. */
+export function solutionLinkTarget(line: string): string | null {
+  const match = line.match(FILE_LINK);
+  if (!match || !solutionLinkExtension(line)) return null;
+  const target = match[1] !== undefined ? `${match[1]}.${match[2]}` : `${match[3]}.${match[4]}`;
+  try {
+    return decodeURI(target);
+  } catch {
+    return target;
+  }
+}
+
+/** `python3-1234567.py`: language plus submission id, so re-imports map to the same file. */
+export function solutionFileName(solution: Pick<SubmissionSolution, "id" | "lang">): string {
+  const lang = (solution.lang ?? "").toLowerCase().replace(/[^a-z0-9]+/g, "") || "solution";
+  const id = solution.id.replace(/[^\w-]+/g, "") || "0";
+  return `${lang}-${id}.${extensionForLanguage(solution.lang)}`;
+}
+
+/** Per-problem folder next to the note: `LeetCode/1-two-sum.md` → `LeetCode/1-two-sum`. */
+export function solutionFolderPath(notePath: string): string {
+  return notePath.replace(/\.md$/i, "");
+}
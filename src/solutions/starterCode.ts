@@ -0,0 +1,27 @@
+/** Starter code for unsolved problems — no Obsidian imports (agent-runnable checks). */
+
+import type { CodeSnippet } from "../leetcode";
+import { languageKey } from "./languageGroups";
+
+/**
+ * Snippets in the order of `languages`, matched by slug (`python3`, `cpp`) or display
+ * name (`Python3`, `C++`). Unknown languages are skipped.
+ */
+export function pickSnippets(snippets: CodeSnippet[], languages: string[]): CodeSnippet[] {
+  const picked: CodeSnippet[] = [];
+  for (const wanted of languages) {
+    const key = languageKey(wanted);
+    const snippet = snippets.find(
+      (candidate) => languageKey(candidate.langSlug) === key || languageKey(candidate.lang) === key
+    );
+    if (snippet && !picked.includes(snippet)) picked.push(snippet);
+  }
+  return picked;
+}
+
+/** Fenced code blocks, one per picked language; the indented empty body line is kept. */
+export function formatStarterCode(snippets: CodeSnippet[], languages: string[]): string {
+  return pickSnippets(snippets, languages)
+    .map((snippet) => `\`\`\`${snippet.langSlug}\n${snippet.code.replace(/\n+$/, "")}\n\`\`\``)
+    .join("\n\n");
+}
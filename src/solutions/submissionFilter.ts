@@ -0,0 +1,82 @@
+/** Filters for accepted submissions — no Obsidian imports (agent-runnable checks). */
+
+/** Which accepted submissions to import; empty fields match everything. */
+export interface SubmissionFilter {
+  /** Language slugs as LeetCode reports them (`python3`, `cpp`), compared case-insensitively. */
+  languages?: string[];
+  /** Local dates `YYYY-MM-DD`, both inclusive. */
+  since?: string;
+  until?: string;
+}
+
+type FilterableSubmission = { lang?: string; timestamp?: number };
+
+/** `"Python3, cpp"` → `["python3", "cpp"]`. */
+export function parseLanguageList(text: string): string[] {
+  return text
+    .split(/[,;\s]+/)
+    .map(normalizeLanguage)
+    .filter(Boolean);
+}
+
+export function matchesSubmissionFilter(
+  submission: FilterableSubmission,
+  filter: SubmissionFilter
+): boolean {
+  const languages = (filter.languages ?? []).map(normalizeLanguage).filter(Boolean);
+  if (languages.length > 0 && !languages.includes(normalizeLanguage(submission.lang ?? ""))) {
+    return false;
+  }
+  const { start, end } = dateBounds(filter);
+  if (start === null && end === null) return true;
+  if (!submission.timestamp) return false;
+  const time = submission.timestamp * 1000;
+  return (start === null || time >= start) && (end === null || time < end);
+}
+
+/**
+ * True when `submission` is older than `since`. Lists come newest first, so paging can
+ * stop at the first such submission.
+ */
+export function isBeforeFilterRange(
+  submission: FilterableSubmission,
+  filter: SubmissionFilter
+): boolean {
+  const { start } = dateBounds(filter);
+  const { timestamp } = submission;
+  return start !== null && Boolean(timestamp) && (timestamp ?? 0) * 1000 < start;
+}
+
+/** The `since`/`until` values that are set but are not valid `YYYY-MM-DD` dates. */
+export function invalidFilterDates(filter: SubmissionFilter): string[] {
+  return [filter.since, filter.until].filter(
+    (value): value is string => Boolean(value?.trim()) && !parseLocalDate(value ?? "")
+  );
+}
+
+function normalizeLanguage(lang: string): string {
+  return lang.trim().toLowerCase().replace(/\s+/g, "");
+}
+
+/**
+ * Start of `since` and start of the day after `until`, in local time (ms). Malformed
+ * dates leave that side of the range open.
+ */
+function dateBounds(filter: SubmissionFilter): { start: number | null; end: number | null } {
+  const since = parseLocalDate(filter.since ?? "");
+  const until = parseLocalDate(filter.until ?? "");
+  return {
+    start: since ? since.getTime() : null,
+    end: until
+      ? new Date(until.getFullYear(), until.getMonth(), until.getDate() + 1).getTime()
+      : null
+  };
+}
+
+function parseLocalDate(value: string): Date | null {
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]) - 1, Number(match[3])];
+  const date = new Date(year, month, day);
+  return date.getMonth() === month && date.getDate() === day ? date : null;
+}
@@ -0,0 +1,95 @@
+import { type App, Notice, type TFile } from "obsidian";
+
+import type { LeetCodeCache } from "../cache";
+import {
+  fetchSubmissionSolution,
+  type LeetCodeSession,
+  type SubmissionSolution,
+  type SubmissionVerdict,
+  submitSolution,
+  waitForVerdict
+} from "../leetcode";
+import type { EditorState } from "../runner/ExampleRunService";
+import { codeBlockAtLine, codeBlocks } from "../runner/harness";
+import type { LeetCodeTemplateSettings } from "../settings";
+import { submissionUrl } from "../sites";
+import { getTemplateStrings } from "../template";
+import { formatVerdict, leetcodeLang, placeVerdict } from "./verdict";
+
+export type SubmitStrings = {
+  noCodeBlock: string;
+  unsupportedLanguage: (lang: string) => string;
+  submitting: (lang: string) => string;
+  accepted: string;
+  rejected: (status: string) => string;
+};
+
+export interface SubmitHost {
+  app: App;
+  settings: LeetCodeTemplateSettings;
+  cache: LeetCodeCache;
+}
+
+export interface SubmitResult {
+  verdict: SubmissionVerdict;
+  /** The accepted submission with its code, ready to import into Solutions. */
+  solution: SubmissionSolution | null;
+}
+
+/**
+ * Submits the code block under the cursor to LeetCode, waits for the verdict and writes
+ * it as a callout under the block. Resolves to null when there is nothing to submit.
+ */
+export class SubmitService {
+  constructor(
+    private readonly plugin: SubmitHost,
+    private readonly getStrings: () => SubmitStrings
+  ) {}
+
+  async submitBlock(
+    file: TFile,
+    slug: string,
+    session: LeetCodeSession,
+    editor: EditorState
+  ): Promise<SubmitResult | null> {
+    const strings = this.getStrings();
+    const block = codeBlockAtLine(editor.content, editor.line);
+    if (!block || !block.code.trim()) {
+      new Notice(strings.noCodeBlock);
+      return null;
+    }
+    const lang = leetcodeLang(block.lang);
+    if (!lang) {
+      new Notice(strings.unsupportedLanguage(block.lang || "—"));
+      return null;
+    }
+
+    const metadata = await this.plugin.cache.getQuestion(slug, session);
+    const progress = new Notice(strings.submitting(block.lang), 0);
+    let verdict: SubmissionVerdict;
+    try {
+      const submissionId = await submitSolution(slug, metadata.id ?? "", lang, block.code, session);
+      verdict = await waitForVerdict(submissionId, slug, session);
+    } finally {
+      progress.hide();
+    }
+
+    const labels = getTemplateStrings(this.plugin.settings.language);
+    const callout = formatVerdict(
+      verdict,
+      { ...labels.attemptLabels, testcases: labels.testcasesPassed },
+      submissionUrl(session.site, verdict.submissionId),
+      Math.floor(Date.now() / 1000)
+    );
+    // The note may have been edited while LeetCode was judging: find the block again.
+    await this.plugin.app.vault.process(file, (content) => {
+      const current = codeBlocks(content).find((candidate) => candidate.code === block.code);
+      return current ? placeVerdict(content, current.endLine, callout) : content;
+    });
+
+    const solution = verdict.accepted
+      ? await fetchSubmissionSolution(verdict.submissionId, slug, session)
+      : null;
+    return { verdict, solution };
+  }
+}
@@ -0,0 +1,104 @@
+/** Submitting from the note — no Obsidian imports (agent-runnable checks). */
+
+import { type AttemptLabels, formatTestcase, formatTime, quoteCallout } from "../attempts";
+import type { SubmissionVerdict } from "../leetcode";
+import { formatPercentile } from "../solutions/fastestSolution";
+
+export type VerdictLabels = Pick<AttemptLabels, "input" | "expected" | "output" | "error"> & {
+  testcases: string;
+};
+
+/** Fence language → LeetCode `lang` slug. A bare `python` fence means Python 3. */
+const LANG_SLUGS: Record<string, string> = {
+  cpp: "cpp",
+  "c++": "cpp",
+  cc: "cpp",
+  cxx: "cpp",
+  c: "c",
+  java: "java",
+  python: "python3",
+  python3: "python3",
+  py: "python3",
+  python2: "python",
+  javascript: "javascript",
+  js: "javascript",
+  typescript: "typescript",
+  ts: "typescript",
+  csharp: "csharp",
+  "c#": "csharp",
+  cs: "csharp",
+  go: "golang",
+  golang: "golang",
+  rust: "rust",
+  rs: "rust",
+  kotlin: "kotlin",
+  kt: "kotlin",
+  swift: "swift",
+  ruby: "ruby",
+  rb: "ruby",
+  scala: "scala",
+  php: "php",
+  dart: "dart",
+  racket: "racket",
+  erlang: "erlang",
+  elixir: "elixir",
+  sql: "mysql",
+  mysql: "mysql",
+  mssql: "mssql",
+  oraclesql: "oraclesql",
+  postgresql: "postgresql",
+  bash: "bash",
+  pandas: "pythondata"
+};
+
+/** Title line of a verdict callout written by the plugin: it links the submission. */
+const VERDICT_TITLE = /^> \[!(?:success|failure)\][+-]? .*\/submissions\/detail\/\d+\/\)/;
+
+export function leetcodeLang(fenceLang: string): string | null {
+  return LANG_SLUGS[fenceLang.trim().toLowerCase()] ?? null;
+}
+
+/**
+ * Verdict as a callout: status, runtime and memory (with percentiles) or passed test
+ * cases, the local time and a link to the submission, then the failing test case.
+ */
+export function formatVerdict(
+  verdict: SubmissionVerdict,
+  labels: VerdictLabels,
+  submissionUrl: string,
+  timestamp: number
+): string {
+  const title = [verdict.status];
+  if (verdict.accepted) {
+    if (verdict.runtime) title.push(withPercentile(verdict.runtime, verdict.runtimePercentile));
+    if (verdict.memory) title.push(withPercentile(verdict.memory, verdict.memoryPercentile));
+  } else if (verdict.totalTestcases) {
+    title.push(`${verdict.totalCorrect ?? 0} / ${verdict.totalTestcases} ${labels.testcases}`);
+  }
+  title.push(formatTime(timestamp), `[#${verdict.submissionId}](${submissionUrl})`);
+
+  const type = verdict.accepted ? "success" : "failure";
+  const testcase = formatTestcase(verdict.testcase, labels);
+  return quoteCallout([`[!${type}] ${title.join(" · ")}`, ...testcase]);
+}
+
+/**
+ * Put the callout under the code block that closes on `endLine` (0-based), replacing the
+ * verdict of an earlier submission of that block.
+ */
+export function placeVerdict(content: string, endLine: number, callout: string): string {
+  const lines = content.split("\n");
+  let rest = endLine + 1;
+  if (lines[rest] === "" && VERDICT_TITLE.test(lines[rest + 1] ?? "")) {
+    rest += 1;
+    while (rest < lines.length && lines[rest]?.startsWith(">")) rest += 1;
+  }
+  const tail = lines.slice(rest);
+  const separator = tail.length > 0 && tail[0] !== "" ? [""] : [];
+  return [...lines.slice(0, endLine + 1), "", callout, ...separator, ...tail].join("\n");
+}
+
+function withPercentile(text: string, percentile: number | undefined): string {
+  const beats = formatPercentile(percentile);
+  return beats ? `${text} (${beats})` : text;
+}
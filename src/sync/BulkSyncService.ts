@@ -0,0 +1,96 @@
+import { type App, Notice } from "obsidian";
+
+import {
+  fetchSolvedProblems,
+  isRateLimitedError,
+  isSessionExpiredError,
+  type LeetCodeSession
+} from "../leetcode";
+import { collectNotesBySlug } from "../noteIndex";
+import { SyncProgressModal } from "./SyncProgressModal";
+
+export type SyncStrings = {
+  title: string;
+  fetching: string;
+  progress: (done: number, total: number) => string;
+  current: (title: string) => string;
+  cancel: string;
+  close: string;
+  cancelled: string;
+  finished: string;
+  summary: (summary: SyncSummary) => string;
+  failedHeader: string;
+  nothingSolved: string;
+};
+
+export interface SyncSummary {
+  created: number;
+  skipped: number;
+  failed: Array<{ slug: string; reason: string }>;
+  cancelled: boolean;
+}
+
+export interface BulkSyncHost {
+  app: App;
+  createNoteForSlug(slug: string, session: LeetCodeSession): Promise<string>;
+}
+
+export class BulkSyncService {
+  constructor(
+    private readonly plugin: BulkSyncHost,
+    private readonly getStrings: () => SyncStrings
+  ) {}
+
+  /**
+   * Create notes for every accepted problem that has no note yet.
+   * Session and rate-limit errors abort the run: the modal closes and the error is rethrown.
+   */
+  async syncSolved(session: LeetCodeSession): Promise<SyncSummary | null> {
+    const strings = this.getStrings();
+    const modal = new SyncProgressModal(this.plugin.app, strings);
+    modal.open();
+
+    const summary: SyncSummary = { created: 0, skipped: 0, failed: [], cancelled: false };
+    try {
+      const problems = await fetchSolvedProblems(session);
+      if (problems.length === 0) {
+        modal.close();
+        new Notice(strings.nothingSolved);
+        return null;
+      }
+
+      const existing = collectNotesBySlug(this.plugin.app);
+      let done = 0;
+      for (const problem of problems) {
+        if (modal.isCancelled()) {
+          summary.cancelled = true;
+          break;
+        }
+        modal.setProgress(done, problems.length, problem.title);
+
+        if (existing.has(problem.slug)) {
+          summary.skipped += 1;
+        } else {
+          try {
+            await this.plugin.createNoteForSlug(problem.slug, session);
+            summary.created += 1;
+          } catch (error) {
+            if (isSessionExpiredError(error) || isRateLimitedError(error)) throw error;
+            const reason = error instanceof Error ? error.message : String(error);
+            summary.failed.push({ slug: problem.slug, reason });
+          }
+        }
+
+        done += 1;
+        modal.setProgress(done, problems.length);
+      }
+    } catch (error) {
+      modal.close();
+      throw error;
+    }
+
+    modal.showSummary(summary);
+    new Notice(strings.summary(summary), 5000);
+    return summary;
+  }
+}
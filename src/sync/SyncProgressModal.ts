@@ -0,0 +1,81 @@
+import { type App, Modal, Setting } from "obsidian";
+
+import type { SyncStrings, SyncSummary } from "./BulkSyncService";
+
+export class SyncProgressModal extends Modal {
+  private cancelled = false;
+  private statusEl: HTMLElement | null = null;
+  private progressEl: HTMLProgressElement | null = null;
+  private summaryEl: HTMLElement | null = null;
+  private buttonSetting: Setting | null = null;
+
+  constructor(
+    app: App,
+    private readonly strings: SyncStrings
+  ) {
+    super(app);
+  }
+
+  /** True once the user pressed Cancel or closed the modal. */
+  isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  override onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    new Setting(contentEl).setName(this.strings.title).setHeading();
+
+    this.statusEl = contentEl.createEl("p", { text: this.strings.fetching });
+    this.progressEl = contentEl.createEl("progress");
+    this.progressEl.value = 0;
+    this.progressEl.max = 1;
+    this.summaryEl = contentEl.createDiv();
+
+    this.buttonSetting = new Setting(contentEl).addButton((btn) =>
+      btn.setButtonText(this.strings.cancel).onClick(() => {
+        this.cancelled = true;
+        btn.setDisabled(true);
+      })
+    );
+  }
+
+  setProgress(done: number, total: number, current?: string): void {
+    if (this.progressEl) {
+      this.progressEl.max = Math.max(total, 1);
+      this.progressEl.value = done;
+    }
+    const parts = [this.strings.progress(done, total)];
+    if (current) parts.push(this.strings.current(current));
+    this.statusEl?.setText(parts.join(" — "));
+  }
+
+  showSummary(summary: SyncSummary): void {
+    this.statusEl?.setText(
+      summary.cancelled ? this.strings.cancelled : this.strings.finished
+    );
+    if (!this.summaryEl) return;
+    this.summaryEl.empty();
+    this.summaryEl.createEl("p", { text: this.strings.summary(summary) });
+    if (summary.failed.length > 0) {
+      this.summaryEl.createEl("p", { text: this.strings.failedHeader });
+      const list = this.summaryEl.createEl("ul");
+      for (const failure of summary.failed) {
+        list.createEl("li", { text: `${failure.slug}: ${failure.reason}` });
+      }
+    }
+
+    this.buttonSetting?.clear();
+    this.buttonSetting?.addButton((btn) =>
+      btn
+        .setButtonText(this.strings.close)
+        .setCta()
+        .onClick(() => this.close())
+    );
+  }
+
+  override onClose(): void {
+    this.cancelled = true;
+    this.contentEl.empty();
+  }
+}
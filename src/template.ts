@@ -1,6 +1,26 @@
-import { htmlToMarkdown } from "obsidian";
-
+import { htmlToMarkdown, stringifyYaml } from "obsidian";
+
+import type { AttemptLabels } from "./attempts";
+import {
+  type ParsedDescription,
+  parseDescription,
+  readableMath
+} from "./description/descriptionParser";
+import { formatHintCallouts } from "./description/hints";
+import { buildFrontmatter, problemStatus, type PropertyOptions } from "./frontmatter";
+import {
+  absoluteImageUrl,
+  type ImageLinks,
+  replaceImageLinks
+} from "./images/descriptionImages";
 import type { QuestionMetadata, SubmissionSolution } from "./leetcode";
+import { formatLocalDate, initialReviewState } from "./review/scheduler";
+import { getSiteConfig, problemUrl } from "./sites";
+import { formatComplexityLine } from "./solutions/complexity";
+import { formatPercentile, markFastestSolution } from "./solutions/fastestSolution";
+import { formatLanguageSubsections, type LanguageBlock } from "./solutions/languageGroups";
+import { formatStarterCode } from "./solutions/starterCode";
+import { renderTemplate, type TemplateContext } from "./templateEngine";
 
 export type Language = "en" | "ru";
 
@@ -12,6 +32,17 @@ const TEMPLATE_STRINGS: Record<Language, {
   optimalSolutionPlaceholder: string;
   similarHeader: string;
   solutionsHeader: string;
+  attemptsHeader: string;
+  starterCodeHeader: string;
+  hintsHeader: string;
+  hintLabel: string;
+  contestProblemsHeader: string;
+  contestResultHeader: string;
+  listProgressHeader: string;
+  attemptLabels: AttemptLabels;
+  testcasesPassed: string;
+  otherLanguage: string;
+  fastestSolution: string;
   descriptionUnavailable: string;
 }> = {
   en: {
@@ -22,6 +53,27 @@ const TEMPLATE_STRINGS: Record<Language, {
     optimalSolutionPlaceholder: "(notes)",
     similarHeader: "Similar questions",
     solutionsHeader: "Solutions",
+    attemptsHeader: "Attempts",
+    starterCodeHeader: "Starter code",
+    hintsHeader: "Hints",
+    hintLabel: "Hint",
+    contestProblemsHeader: "Problems",
+    contestResultHeader: "My result",
+    listProgressHeader: "Progress",
+    attemptLabels: {
+      date: "Date",
+      status: "Status",
+      language: "Language",
+      runtime: "Runtime",
+      memory: "Memory",
+      input: "Input",
+      expected: "Expected",
+      output: "Output",
+      error: "Error"
+    },
+    testcasesPassed: "test cases passed",
+    otherLanguage: "Other",
+    fastestSolution: "Fastest",
     descriptionUnavailable: "(description unavailable or disabled)"
   },
   ru: {
@@ -32,6 +84,27 @@ const TEMPLATE_STRINGS: Record<Language, {
     optimalSolutionPlaceholder: "(конспект)",
     similarHeader: "Похожие вопросы",
     solutionsHeader: "Решения",
+    attemptsHeader: "Попытки",
+    starterCodeHeader: "Заготовка кода",
+    hintsHeader: "Подсказки",
+    hintLabel: "Подсказка",
+    contestProblemsHeader: "Задачи",
+    contestResultHeader: "Мой результат",
+    listProgressHeader: "Прогресс",
+    attemptLabels: {
+      date: "Дата",
+      status: "Статус",
+      language: "Язык",
+      runtime: "Время",
+      memory: "Память",
+      input: "Ввод",
+      expected: "Ожидалось",
+      output: "Вывод",
+      error: "Ошибка"
+    },
+    testcasesPassed: "тестов пройдено",
+    otherLanguage: "Другое",
+    fastestSolution: "Самое быстрое",
     descriptionUnavailable: "(описание недоступно или отключено)"
   }
 };
@@ -40,36 +113,100 @@ export function getTemplateStrings(language: Language = "en") {
   return TEMPLATE_STRINGS[language] ?? TEMPLATE_STRINGS.en;
 }
 
+/** A section header in every language, for finding sections in existing notes. */
+export function sectionHeaders(
+  key:
+    | "descriptionHeader"
+    | "myIdeaHeader"
+    | "optimalSolutionHeader"
+    | "similarHeader"
+    | "attemptsHeader"
+    | "starterCodeHeader"
+    | "hintsHeader"
+    | "contestProblemsHeader"
+    | "contestResultHeader"
+    | "listProgressHeader"
+): string[] {
+  return Object.values(TEMPLATE_STRINGS).map((strings) => strings[key]);
+}
+
 export const SOLUTIONS_HEADERS: Record<Language, string> = {
   en: "Solutions",
   ru: "Решения"
 };
 
+/** How the Solutions section is laid out. */
+export interface SolutionLayout {
+  /** Put solutions under a `### <language>` subsection per language. */
+  groupByLanguage?: boolean;
+  /** Languages whose subsections come first, in this order. */
+  preferredLanguages?: string[];
+  /** Mark the solution with the lowest runtime. */
+  markFastest?: boolean;
+}
+
+export interface NoteOptions {
+  /** Contents of a user template file; replaces the built-in layout when set. */
+  template?: string | null;
+  /** Optional frontmatter properties; all off when omitted. */
+  properties?: Partial<PropertyOptions>;
+  /** False when solutions are stored as separate files and linked after the note exists. */
+  inlineSolutions?: boolean;
+  solutionLayout?: SolutionLayout;
+  /** Languages of the Starter code section added when there are no solutions; empty = none. */
+  starterLanguages?: string[];
+  /** Downloaded description images that replace the LeetCode URLs. */
+  images?: ImageLinks;
+  /** Add the Hints section; off when omitted. */
+  includeHints?: boolean;
+}
+
 export function buildNoteContent(
   metadata: QuestionMetadata,
   includeDescription: boolean,
   solutions?: SubmissionSolution[] | SubmissionSolution | null,
-  language: Language = "en"
+  language: Language = "en",
+  options: NoteOptions = {}
 ): string {
   const strings = getTemplateStrings(language);
+  const preparedSolutions = Array.isArray(solutions)
+    ? solutions
+    : solutions
+      ? [solutions]
+      : [];
+  const inlineSolutions = options.inlineSolutions === false ? [] : preparedSolutions;
+  const starterCode =
+    preparedSolutions.length > 0
+      ? ""
+      : formatStarterCode(metadata.codeSnippets ?? [], options.starterLanguages ?? []);
+  const hints = options.includeHints ? formatHints(metadata, language) : "";
+
+  if (options.template) {
+    return renderTemplate(
+      options.template,
+      buildTemplateContext(
+        metadata,
+        includeDescription,
+        inlineSolutions,
+        language,
+        options.properties,
+        options.solutionLayout,
+        { starterCode, images: options.images, hints }
+      )
+    );
+  }
 
-  const tags = metadata.tags?.length ? metadata.tags.join(", ") : "";
-  const link = `https://leetcode.com/problems/${metadata.slug}/`;
-
-  const frontmatter = [
-    "---",
-    `title: ${metadata.title}`,
-    `number: ${metadata.number ?? ""}`,
-    `difficulty: ${metadata.difficulty}`,
-    `tags: [${tags}]`,
-    `link: ${link}`,
-    "---"
-  ].join("\n");
+  const properties = buildFrontmatter(
+    metadata,
+    preparedSolutions,
+    options.properties ?? {},
+    formatLocalDate(new Date())
+  );
+  const frontmatter = `---\n${stringifyYaml(properties)}---`;
 
   const descriptionBlock =
-    includeDescription && metadata.content
-      ? formatDescription(htmlToMarkdown(metadata.content).trim())
-      : strings.descriptionUnavailable;
+    formatDescriptionBlock(metadata, includeDescription, options.images) ||
+    strings.descriptionUnavailable;
 
   const parts: string[] = [
     frontmatter,
@@ -78,6 +215,7 @@ export function buildNoteContent(
     `## ${strings.descriptionHeader}`,
     descriptionBlock,
     "",
+    ...(hints ? [`## ${strings.hintsHeader}`, hints, ""] : []),
     `## ${strings.myIdeaHeader}`,
     strings.myIdeaPlaceholder,
     "",
@@ -87,58 +225,236 @@ export function buildNoteContent(
   ];
 
   if (metadata.similarQuestions.length > 0) {
-    const similarBlock = metadata.similarQuestions
-      .map(
-        (q) =>
-          `- ${q.title} (${q.difficulty || "?"}) — https://leetcode.com/problems/${q.slug}/`
-      )
-      .join("\n");
-    parts.push(`## ${strings.similarHeader}`, similarBlock, "");
+    parts.push(`## ${strings.similarHeader}`, formatSimilarList(metadata), "");
   }
 
-  const preparedSolutions = Array.isArray(solutions)
-    ? solutions
-    : solutions
-      ? [solutions]
-      : [];
-
-  if (preparedSolutions.length > 0) {
-    parts.push(formatSolutionsSection(preparedSolutions, { language }));
+  if (inlineSolutions.length > 0) {
+    parts.push(
+      formatSolutionsSection(inlineSolutions, { language, ...options.solutionLayout })
+    );
+  } else if (starterCode) {
+    parts.push(`## ${strings.starterCodeHeader}`, "", starterCode);
   }
 
   return parts.join("\n");
 }
 
+/**
+ * Values exposed to user templates. Arrays (`tags`, `similarQuestions`, `solutionList`)
+ * also work in `{{#each}}` blocks; `labels` holds the localized section headers and
+ * `frontmatter` the built-in properties as ready-to-paste YAML. `starterCode` is only
+ * filled for problems without solutions, `hints` only when hints are enabled. `statement`,
+ * `examples`, `constraints` and `followUp` are the parts of the description, for templates
+ * that lay it out themselves.
+ */
+export function buildTemplateContext(
+  metadata: QuestionMetadata,
+  includeDescription: boolean,
+  solutions: SubmissionSolution[],
+  language: Language = "en",
+  properties: Partial<PropertyOptions> = {},
+  layout: SolutionLayout = {},
+  extras: { starterCode?: string; images?: ImageLinks; hints?: string } = {}
+): TemplateContext {
+  const deduped = dedupeSolutionsByCode(solutions);
+  const today = formatLocalDate(new Date());
+  const review = initialReviewState(today);
+  const parsed = includeDescription && metadata.content ? parseDescription(metadata.content) : null;
+  return {
+    frontmatter: stringifyYaml(buildFrontmatter(metadata, deduped, properties, today)).trimEnd(),
+    title: metadata.title,
+    number: metadata.number ?? "",
+    id: metadata.id ?? "",
+    slug: metadata.slug,
+    difficulty: metadata.difficulty,
+    tags: metadata.tags,
+    link: problemUrl(metadata.site, metadata.slug),
+    date: today,
+    acceptanceRate: metadata.acceptanceRate ?? "",
+    status: problemStatus(metadata, deduped),
+    description: formatDescriptionBlock(metadata, includeDescription, extras.images),
+    statement: parsed ? localStatement(parsed, metadata, extras.images) : "",
+    examples: (parsed?.examples ?? []).map((example) => ({
+      title: example.title,
+      input: example.input,
+      output: example.output,
+      explanation: example.explanation
+    })),
+    constraints: parsed?.constraints ?? [],
+    followUp: parsed?.followUp ?? "",
+    hints: extras.hints ?? "",
+    similar: formatSimilarList(metadata),
+    similarQuestions: metadata.similarQuestions.map((q) => ({
+      title: q.title,
+      slug: q.slug,
+      difficulty: q.difficulty,
+      link: problemUrl(metadata.site, q.slug)
+    })),
+    solutions: formatSolutionsSection(deduped, { includeHeader: false, language, ...layout }),
+    starterCode: extras.starterCode ?? "",
+    solutionList: deduped.map((solution) => ({
+      lang: solution.lang ?? "",
+      code: solution.code,
+      runtime: formatRuntime(solution.runtime),
+      memory: formatMemory(solution.memory),
+      runtimePercentile: formatPercentile(solution.runtimePercentile),
+      memoryPercentile: formatPercentile(solution.memoryPercentile),
+      timeComplexity: solution.timeComplexity ?? "",
+      spaceComplexity: solution.spaceComplexity ?? "",
+      date: solution.timestamp ? new Date(solution.timestamp * 1000).toISOString() : ""
+    })),
+    review: {
+      next_review: review.nextReview,
+      interval: review.interval,
+      ease: review.ease,
+      count: review.count
+    },
+    labels: { ...getTemplateStrings(language) }
+  };
+}
+
+/**
+ * The description as Markdown: the statement, then a `###` subsection per example and for
+ * the constraints, and the follow-up as a callout. Descriptions without recognisable
+ * examples or constraints are converted as a whole.
+ */
+export function formatDescriptionBlock(
+  metadata: QuestionMetadata,
+  includeDescription: boolean,
+  images?: ImageLinks
+): string {
+  if (!includeDescription || !metadata.content) return "";
+  const origin = getSiteConfig(metadata.site).origin;
+  const parsed = parseDescription(metadata.content);
+  const markdown = hasStructure(parsed)
+    ? formatParsedDescription(parsed, origin)
+    : formatDescription(htmlToMarkdown(readableMath(metadata.content)).trim());
+  return images ? replaceImageLinks(markdown, images, origin) : markdown;
+}
+
+function localStatement(
+  parsed: ParsedDescription,
+  metadata: QuestionMetadata,
+  images?: ImageLinks
+): string {
+  const markdown = htmlToMarkdown(parsed.statement).trim();
+  if (!images) return markdown;
+  return replaceImageLinks(markdown, images, getSiteConfig(metadata.site).origin);
+}
+
+function hasStructure(parsed: ParsedDescription): boolean {
+  return parsed.examples.length > 0 || parsed.constraints.length > 0 || Boolean(parsed.followUp);
+}
+
+function formatParsedDescription(parsed: ParsedDescription, origin: string): string {
+  const { labels } = parsed;
+  const parts = [htmlToMarkdown(parsed.statement).trim()];
+  for (const example of parsed.examples) {
+    const fields = [
+      example.input && `${labels.input}: ${example.input}`,
+      example.output && `${labels.output}: ${example.output}`,
+      example.explanation && `${labels.explanation}: ${example.explanation}`
+    ].filter(Boolean);
+    parts.push(
+      [
+        `### ${example.title}`,
+        ...example.images.map((src) => `![](${absoluteImageUrl(src, origin) ?? src})`),
+        fields.length > 0 ? ["```", ...fields, "```"].join("\n") : ""
+      ]
+        .filter(Boolean)
+        .join("\n\n")
+    );
+  }
+  if (parsed.constraints.length > 0) {
+    const items = parsed.constraints.map((constraint) => `- ${constraint}`);
+    parts.push([`### ${labels.constraints}`, "", ...items].join("\n"));
+  }
+  if (parsed.followUp) {
+    parts.push(`> [!question] ${labels.followUp}\n> ${parsed.followUp}`);
+  }
+  return parts.filter(Boolean).join("\n\n");
+}
+
+export function formatSimilarList(metadata: QuestionMetadata): string {
+  return metadata.similarQuestions
+    .map(
+      (q) => `- ${q.title} (${q.difficulty || "?"}) — ${problemUrl(metadata.site, q.slug)}`
+    )
+    .join("\n");
+}
+
+/** Hints as collapsed `> [!hint]-` callouts, numbered in the order LeetCode reveals them. */
+export function formatHints(metadata: QuestionMetadata, language: Language = "en"): string {
+  const hints = (metadata.hints ?? []).map((hint) => htmlToMarkdown(readableMath(hint)));
+  return formatHintCallouts(hints, getTemplateStrings(language).hintLabel);
+}
+
+/**
+ * Solutions as fenced code blocks, optionally grouped into `### <language>` subsections.
+ * Solutions with an entry in `links` (submission id → link to a stored source file) get
+ * the link instead of the code.
+ */
 export function formatSolutionsSection(
   solutions: SubmissionSolution[],
-  options: { includeHeader?: boolean; language?: Language } = {}
+  options: SolutionLayout & {
+    includeHeader?: boolean;
+    language?: Language;
+    links?: Map<string, string>;
+  } = {}
 ): string {
-  const { includeHeader = true, language = "en" } = options;
-  const deduped = dedupeSolutionsByCode(solutions);
-  if (deduped.length === 0) return "";
-  const entries = deduped.map(formatSingleSolution);
-  if (!includeHeader) return entries.join("\n\n");
+  const { includeHeader = true, language = "en", groupByLanguage, preferredLanguages } = options;
+  const blocks = formatSolutionBlocks(solutions, options);
+  if (blocks.length === 0) return "";
+  const grouped = groupByLanguage
+    ? formatLanguageSubsections(blocks, preferredLanguages)
+    : blocks.map((block) => block.text).join("\n\n");
+  const body = options.markFastest
+    ? markFastestSolution(grouped, getTemplateStrings(language).fastestSolution)
+    : grouped;
+  if (!includeHeader) return body;
   const header = SOLUTIONS_HEADERS[language] ?? SOLUTIONS_HEADERS.en;
-  return [`## ${header}`, entries.join("\n\n")].join("\n\n");
+  return [`## ${header}`, body].join("\n\n");
+}
+
+/** Deduplicated solutions, each formatted and tagged with its subsection heading. */
+export function formatSolutionBlocks(
+  solutions: SubmissionSolution[],
+  options: { language?: Language; links?: Map<string, string> } = {}
+): LanguageBlock[] {
+  const { otherLanguage } = getTemplateStrings(options.language);
+  return dedupeSolutionsByCode(solutions).map((solution) => ({
+    lang: solution.lang?.trim() || otherLanguage,
+    text: formatSingleSolution(solution, options.links?.get(solution.id))
+  }));
 }
 
-function formatSingleSolution(solution: SubmissionSolution): string {
+function formatSingleSolution(solution: SubmissionSolution, link?: string): string {
   const lang = solution.lang ? solution.lang.toLowerCase() : "";
   const code = solution.code.trimEnd();
   const details: string[] = [];
   if (solution.lang) details.push(solution.lang);
   const runtime = formatRuntime(solution.runtime);
-  if (runtime) details.push(`Runtime: ${runtime}`);
+  if (runtime) details.push(withPercentile(`Runtime: ${runtime}`, solution.runtimePercentile));
   const memory = formatMemory(solution.memory);
-  if (memory) details.push(`Memory: ${memory}`);
+  if (memory) details.push(withPercentile(`Memory: ${memory}`, solution.memoryPercentile));
   const time = solution.timestamp ? new Date(solution.timestamp * 1000) : null;
   if (time) details.push(time.toISOString());
-  const detailsLine = details.join(" · ");
+  const complexityLine = formatComplexityLine({
+    time: solution.timeComplexity,
+    space: solution.spaceComplexity
+  });
+  const detailsLine = [details.join(" · "), complexityLine].filter(Boolean).join("\n");
 
   const meta = detailsLine ? `${detailsLine}\n\n` : "";
+  if (link) return `${meta}${link}`;
   return `${meta}\`\`\`${lang}\n${code}\n\`\`\``;
 }
 
+function withPercentile(text: string, percentile: number | undefined): string {
+  const beats = formatPercentile(percentile);
+  return beats ? `${text} (${beats})` : text;
+}
+
 function formatRuntime(raw: string | number | undefined | null): string {
   const text = String(raw ?? "").trim();
   if (!text) return "";
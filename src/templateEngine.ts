@@ -0,0 +1,218 @@
+/**
+ * Minimal placeholder language for user note templates — no Obsidian imports
+ * (agent-runnable checks).
+ *
+ *   {{title}}                         value (arrays are joined with ", ")
+ *   {{#if tags}}…{{else}}…{{/if}}     conditional; empty strings/arrays are falsy
+ *   {{#unless description}}…{{/unless}}
+ *   {{#each similarQuestions}}- {{title}} ({{@number}}){{/each}}
+ *
+ * Inside `each`, `{{this}}` is the current item, `{{@index}}` is zero-based and
+ * `{{@number}}` one-based; outer values stay reachable by name. Block tags that sit
+ * alone on a line consume the whole line, so templates do not collect blank lines.
+ */
+
+export type TemplateValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | TemplateValue[]
+  | { [key: string]: TemplateValue };
+
+export type TemplateContext = Record<string, TemplateValue>;
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateSyntaxError";
+  }
+}
+
+type Node =
+  | { kind: "text"; text: string }
+  | { kind: "value"; path: string }
+  | { kind: "if"; path: string; negate: boolean; then: Node[]; otherwise: Node[] }
+  | { kind: "each"; path: string; body: Node[]; otherwise: Node[] };
+
+type Token =
+  | { kind: "text"; text: string }
+  | { kind: "value"; path: string }
+  | { kind: "open"; block: "if" | "unless" | "each"; path: string }
+  | { kind: "else" }
+  | { kind: "close"; block: "if" | "unless" | "each" };
+
+const TAG = /\{\{\s*([#/]?)([^{}]*?)\s*\}\}/g;
+
+export function renderTemplate(template: string, context: TemplateContext): string {
+  return renderNodes(parseTemplate(template), [context]);
+}
+
+function parseTemplate(template: string): Node[] {
+  const tokens = tokenize(template);
+  let position = 0;
+
+  const parseUntil = (stop: Array<Token["kind"]>): Node[] => {
+    const nodes: Node[] = [];
+    while (position < tokens.length) {
+      const token = tokens[position];
+      if (!token || stop.includes(token.kind)) break;
+      position += 1;
+
+      if (token.kind === "text") nodes.push({ kind: "text", text: token.text });
+      else if (token.kind === "value") nodes.push({ kind: "value", path: token.path });
+      else if (token.kind === "open") nodes.push(parseBlock(token));
+      else if (token.kind === "else") throw new TemplateSyntaxError("{{else}} outside of a block");
+      else throw new TemplateSyntaxError(`Unexpected {{/${token.block}}}`);
+    }
+    return nodes;
+  };
+
+  const parseBlock = (open: Extract<Token, { kind: "open" }>): Node => {
+    if (!open.path) throw new TemplateSyntaxError(`{{#${open.block}}} needs a value name`);
+    const body = parseUntil(["else", "close"]);
+    let otherwise: Node[] = [];
+    if (tokens[position]?.kind === "else") {
+      position += 1;
+      otherwise = parseUntil(["close"]);
+    }
+    const close = tokens[position];
+    if (close?.kind !== "close" || close.block !== open.block) {
+      throw new TemplateSyntaxError(`Unclosed {{#${open.block} ${open.path}}}`);
+    }
+    position += 1;
+
+    if (open.block === "each") {
+      return { kind: "each", path: open.path, body, otherwise };
+    }
+    return {
+      kind: "if",
+      path: open.path,
+      negate: open.block === "unless",
+      then: body,
+      otherwise
+    };
+  };
+
+  return parseUntil([]);
+}
+
+function tokenize(template: string): Token[] {
+  const tokens: Token[] = [];
+  let cursor = 0;
+
+  for (const match of template.matchAll(TAG)) {
+    const sigil = match[1] ?? "";
+    const body = (match[2] ?? "").trim();
+    let start = match.index ?? 0;
+    let end = start + match[0].length;
+
+    const token = toToken(sigil, body);
+    if (token.kind !== "value") {
+      // Standalone block tag: swallow its indentation and line break.
+      const lineStart = template.lastIndexOf("\n", start - 1) + 1;
+      const newline = template.indexOf("\n", end);
+      const lineEnd = newline === -1 ? template.length : newline;
+      const before = template.slice(Math.max(lineStart, cursor), start);
+      const after = template.slice(end, lineEnd);
+      if (lineStart >= cursor && !before.trim() && !after.trim()) {
+        start = lineStart;
+        end = newline === -1 ? lineEnd : newline + 1;
+      }
+    }
+
+    if (start > cursor) tokens.push({ kind: "text", text: template.slice(cursor, start) });
+    tokens.push(token);
+    cursor = end;
+  }
+
+  if (cursor < template.length) tokens.push({ kind: "text", text: template.slice(cursor) });
+  return tokens;
+}
+
+function toToken(sigil: string, body: string): Token {
+  if (sigil === "#") {
+    const [keyword = "", ...rest] = body.split(/\s+/);
+    if (keyword === "if" || keyword === "unless" || keyword === "each") {
+      return { kind: "open", block: keyword, path: rest.join(" ") };
+    }
+    throw new TemplateSyntaxError(`Unknown block {{#${keyword}}}`);
+  }
+  if (sigil === "/") {
+    if (body === "if" || body === "unless" || body === "each") {
+      return { kind: "close", block: body };
+    }
+    throw new TemplateSyntaxError(`Unknown block end {{/${body}}}`);
+  }
+  if (body === "else") return { kind: "else" };
+  return { kind: "value", path: body };
+}
+
+function renderNodes(nodes: Node[], scopes: TemplateContext[]): string {
+  let out = "";
+  for (const node of nodes) {
+    switch (node.kind) {
+      case "text":
+        out += node.text;
+        break;
+      case "value":
+        out += formatValue(lookup(node.path, scopes));
+        break;
+      case "if": {
+        const truthy = isTruthy(lookup(node.path, scopes));
+        out += renderNodes(truthy !== node.negate ? node.then : node.otherwise, scopes);
+        break;
+      }
+      case "each": {
+        const value = lookup(node.path, scopes);
+        const items = Array.isArray(value) ? value : [];
+        if (items.length === 0) {
+          out += renderNodes(node.otherwise, scopes);
+          break;
+        }
+        items.forEach((item, index) => {
+          const scope: TemplateContext = {
+            ...(isRecord(item) ? item : {}),
+            this: item,
+            "@index": index,
+            "@number": index + 1
+          };
+          out += renderNodes(node.body, [scope, ...scopes]);
+        });
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+function lookup(path: string, scopes: TemplateContext[]): TemplateValue {
+  const [head = "", ...rest] = path.split(".");
+  for (const scope of scopes) {
+    if (!(head in scope)) continue;
+    let value: TemplateValue = scope[head];
+    for (const key of rest) {
+      value = isRecord(value) ? value[key] : undefined;
+    }
+    return value;
+  }
+  return undefined;
+}
+
+function isRecord(value: TemplateValue): value is { [key: string]: TemplateValue } {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function isTruthy(value: TemplateValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === "string") return value.trim().length > 0;
+  return Boolean(value);
+}
+
+function formatValue(value: TemplateValue): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map(formatValue).join(", ");
+  if (typeof value === "object") return "";
+  return String(value);
+}
@@ -0,0 +1,117 @@
+import { type App, Modal, Setting } from "obsidian";
+
+import type { NoteUpdatePlan, UpdateStrings } from "./MetadataUpdateService";
+import { diffHunks, type DiffLine } from "./noteSections";
+
+const DIFF_PREFIX: Record<DiffLine["kind"], string> = { same: " ", added: "+", removed: "-" };
+
+/** Shows fetch progress, then a per-note diff preview with Apply / Cancel. */
+export class MetadataUpdateModal extends Modal {
+  private cancelled = false;
+  private statusEl: HTMLElement | null = null;
+  private progressEl: HTMLProgressElement | null = null;
+  private resolve: ((confirmed: boolean) => void) | null = null;
+
+  constructor(
+    app: App,
+    private readonly strings: UpdateStrings
+  ) {
+    super(app);
+  }
+
+  /** True once the user pressed Cancel or closed the modal. */
+  isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  override onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    new Setting(contentEl).setName(this.strings.title).setHeading();
+    this.statusEl = contentEl.createEl("p", { text: this.strings.fetching });
+    this.progressEl = contentEl.createEl("progress");
+    this.progressEl.value = 0;
+    this.progressEl.max = 1;
+
+    new Setting(contentEl).addButton((btn) =>
+      btn.setButtonText(this.strings.cancel).onClick(() => this.close())
+    );
+  }
+
+  setProgress(done: number, total: number, current?: string): void {
+    if (this.progressEl) {
+      this.progressEl.max = Math.max(total, 1);
+      this.progressEl.value = done;
+    }
+    const parts = [this.strings.progress(done, total)];
+    if (current) parts.push(this.strings.current(current));
+    this.statusEl?.setText(parts.join(" — "));
+  }
+
+  /** Replace the progress with the preview; resolves true when the user applies it. */
+  confirm(
+    plans: NoteUpdatePlan[],
+    failed: Array<{ slug: string; reason: string }>
+  ): Promise<boolean> {
+    if (this.cancelled) return Promise.resolve(false);
+    const { contentEl } = this;
+    contentEl.empty();
+    new Setting(contentEl).setName(this.strings.title).setHeading();
+
+    for (const plan of plans) {
+      const details = contentEl.createEl("details");
+      details.open = plans.length === 1;
+      details.createEl("summary", { text: plan.file.path });
+      if (plan.fields.length > 0) {
+        details.createEl("p", { text: this.strings.frontmatterHeader });
+        const list = details.createEl("ul");
+        for (const field of plan.fields) {
+          list.createEl("li", { text: `${field.key}: ${field.before || "—"} → ${field.after}` });
+        }
+      }
+      const hunks = diffHunks(plan.diff);
+      if (hunks.length === 0) {
+        details.createEl("p", { text: this.strings.noBodyChanges, cls: "setting-item-description" });
+        continue;
+      }
+      const text = hunks
+        .map((hunk) => hunk.map((line) => `${DIFF_PREFIX[line.kind]} ${line.text}`).join("\n"))
+        .join("\n…\n");
+      details.createEl("pre").createEl("code", { text });
+    }
+
+    if (failed.length > 0) {
+      contentEl.createEl("p", { text: this.strings.failedHeader });
+      const list = contentEl.createEl("ul");
+      for (const failure of failed) {
+        list.createEl("li", { text: `${failure.slug}: ${failure.reason}` });
+      }
+    }
+
+    return new Promise<boolean>((resolve) => {
+      this.resolve = resolve;
+      const buttons = new Setting(contentEl).addButton((btn) =>
+        btn.setButtonText(this.strings.cancel).onClick(() => this.close())
+      );
+      if (plans.length > 0) {
+        buttons.addButton((btn) =>
+          btn
+            .setButtonText(this.strings.apply)
+            .setCta()
+            .onClick(() => {
+              this.resolve = null;
+              resolve(true);
+              this.close();
+            })
+        );
+      }
+    });
+  }
+
+  override onClose(): void {
+    this.cancelled = true;
+    this.resolve?.(false);
+    this.resolve = null;
+    this.contentEl.empty();
+  }
+}
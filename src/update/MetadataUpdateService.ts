@@ -0,0 +1,215 @@
+import { type App, Notice, type TFile } from "obsidian";
+
+import type { LeetCodeCache } from "../cache";
+import { PROPERTY_KEYS } from "../frontmatter";
+import type { ImageLinks } from "../images/descriptionImages";
+import type { DescriptionImageStore } from "../images/DescriptionImageStore";
+import {
+  fetchQuestion,
+  isRateLimitedError,
+  isSessionExpiredError,
+  type LeetCodeSession,
+  type QuestionMetadata
+} from "../leetcode";
+import { collectNotesBySlug } from "../noteIndex";
+import type { LeetCodeTemplateSettings } from "../settings";
+import {
+  formatDescriptionBlock,
+  formatHints,
+  formatSimilarList,
+  getTemplateStrings,
+  sectionHeaders,
+  SOLUTIONS_HEADERS
+} from "../template";
+import { MetadataUpdateModal } from "./MetadataUpdateModal";
+import {
+  diffFields,
+  type DiffLine,
+  diffLines,
+  type FieldChange,
+  hasSection,
+  insertSection,
+  replaceSection
+} from "./noteSections";
+
+export type UpdateStrings = {
+  title: string;
+  fetching: string;
+  progress: (done: number, total: number) => string;
+  current: (title: string) => string;
+  cancel: string;
+  apply: string;
+  frontmatterHeader: string;
+  noBodyChanges: string;
+  failedHeader: string;
+  upToDate: string;
+  updated: (count: number) => string;
+};
+
+export interface MetadataUpdateHost {
+  app: App;
+  settings: LeetCodeTemplateSettings;
+  images: DescriptionImageStore;
+  cache: LeetCodeCache;
+}
+
+/** Pending changes for one note, shown in the preview before anything is written. */
+export interface NoteUpdatePlan {
+  file: TFile;
+  metadata: QuestionMetadata;
+  fields: FieldChange[];
+  diff: DiffLine[];
+}
+
+/**
+ * Refreshes notes from current LeetCode data: the plugin-owned frontmatter keys
+ * (title, difficulty, tags, acceptance rate when enabled) and the Description, Hints and
+ * Similar questions sections.
+ * Everything else in the note, including My idea and Optimal solution, is left as is.
+ */
+export class MetadataUpdateService {
+  constructor(
+    private readonly plugin: MetadataUpdateHost,
+    private readonly getStrings: () => UpdateStrings
+  ) {}
+
+  async updateNote(file: TFile, slug: string, session: LeetCodeSession): Promise<number> {
+    return this.run([{ file, slug }], session);
+  }
+
+  async updateVault(session: LeetCodeSession): Promise<number> {
+    const notes = collectNotesBySlug(this.plugin.app);
+    return this.run(
+      [...notes].map(([slug, file]) => ({ file, slug })),
+      session
+    );
+  }
+
+  /**
+   * Fetch fresh metadata for each note, then ask for confirmation and write the changes.
+   * Resolves to the number of updated notes. Session and rate-limit errors close the
+   * modal and are rethrown; other per-note failures are listed in the preview.
+   */
+  private async run(
+    notes: Array<{ file: TFile; slug: string }>,
+    session: LeetCodeSession
+  ): Promise<number> {
+    const strings = this.getStrings();
+    const modal = new MetadataUpdateModal(this.plugin.app, strings);
+    modal.open();
+
+    const plans: NoteUpdatePlan[] = [];
+    const failed: Array<{ slug: string; reason: string }> = [];
+    try {
+      for (const [index, note] of notes.entries()) {
+        if (modal.isCancelled()) return 0;
+        modal.setProgress(index, notes.length, note.file.basename);
+        try {
+          const metadata = await fetchQuestion(note.slug, session);
+          // Notes created or run later should see the same data as the updated note.
+          await this.plugin.cache.storeQuestion(note.slug, session, metadata);
+          const plan = await this.planUpdate(note.file, metadata);
+          if (plan) plans.push(plan);
+        } catch (error) {
+          if (isSessionExpiredError(error) || isRateLimitedError(error)) throw error;
+          const reason = error instanceof Error ? error.message : String(error);
+          failed.push({ slug: note.slug, reason });
+        }
+      }
+    } catch (error) {
+      modal.close();
+      throw error;
+    }
+
+    if (plans.length === 0 && failed.length === 0) {
+      modal.close();
+      new Notice(strings.upToDate);
+      return 0;
+    }
+    if (!(await modal.confirm(plans, failed)) || plans.length === 0) return 0;
+
+    for (const plan of plans) {
+      await this.applyPlan(plan);
+    }
+    new Notice(strings.updated(plans.length));
+    return plans.length;
+  }
+
+  private async planUpdate(file: TFile, metadata: QuestionMetadata): Promise<NoteUpdatePlan | null> {
+    const content = await this.plugin.app.vault.read(file);
+    // Nothing is downloaded before the user confirms: new images show their LeetCode URL.
+    const images = await this.plugin.images.localize(metadata, file.path, false);
+    const updated = this.rewriteSections(content, metadata, images);
+    const frontmatter = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+    const fields = diffFields(frontmatter, this.ownedFields(metadata));
+    if (updated === content && fields.length === 0) return null;
+    return { file, metadata, fields, diff: diffLines(content, updated) };
+  }
+
+  private async applyPlan(plan: NoteUpdatePlan): Promise<void> {
+    const { fileManager, vault } = this.plugin.app;
+    const images = await this.plugin.images.localize(plan.metadata, plan.file.path);
+    // Recompute against the file as it is now, in case it was edited during the preview.
+    await vault.process(plan.file, (content) =>
+      this.rewriteSections(content, plan.metadata, images)
+    );
+    if (plan.fields.length === 0) return;
+    const values = this.ownedFields(plan.metadata);
+    await fileManager.processFrontMatter(plan.file, (frontmatter: Record<string, unknown>) => {
+      for (const change of plan.fields) {
+        frontmatter[change.key] = values[change.key];
+      }
+    });
+  }
+
+  private rewriteSections(
+    content: string,
+    metadata: QuestionMetadata,
+    images: ImageLinks
+  ): string {
+    const { includeDescription, includeHints, language } = this.plugin.settings;
+    let next = content;
+
+    const description = formatDescriptionBlock(metadata, includeDescription, images);
+    if (description) {
+      next = replaceSection(next, sectionHeaders("descriptionHeader"), description) ?? next;
+    }
+
+    const hints = includeHints ? formatHints(metadata, language) : "";
+    if (hints) {
+      const headers = sectionHeaders("hintsHeader");
+      const before = sectionHeaders("myIdeaHeader");
+      if (hasSection(next, headers)) {
+        next = replaceSection(next, headers, hints) ?? next;
+      } else if (hasSection(next, before)) {
+        next = insertSection(next, getTemplateStrings(language).hintsHeader, hints, before);
+      }
+    }
+
+    const similar = formatSimilarList(metadata);
+    if (similar) {
+      const headers = sectionHeaders("similarHeader");
+      next = hasSection(next, headers)
+        ? (replaceSection(next, headers, similar) ?? next)
+        : insertSection(
+            next,
+            getTemplateStrings(language).similarHeader,
+            similar,
+            Object.values(SOLUTIONS_HEADERS)
+          );
+    }
+    return next;
+  }
+
+  private ownedFields(metadata: QuestionMetadata): Record<string, string | number | string[]> {
+    const fields: Record<string, string | number | string[]> = {
+      title: metadata.title,
+      difficulty: metadata.difficulty,
+      tags: metadata.tags
+    };
+    if (this.plugin.settings.propertyAcceptanceRate && metadata.acceptanceRate !== undefined) {
+      fields[PROPERTY_KEYS.acceptanceRate] = metadata.acceptanceRate;
+    }
+    return fields;
+  }
+}
@@ -0,0 +1,179 @@
+/** Note section editing and line diffs — no Obsidian imports (agent-runnable checks). */
+
+export type DiffLine = { kind: "same" | "added" | "removed"; text: string };
+
+export interface FieldChange {
+  key: string;
+  before: string;
+  after: string;
+}
+
+const FENCE = /^\s*(```|~~~)/;
+const SECTION_HEADING = /^##\s+(.+?)\s*#*\s*$/;
+const SECTION_END = /^#{1,2}\s/;
+
+/**
+ * Line range of the first `## <header>` section (heading line and body end, exclusive).
+ * The body runs to the next `#`/`##` heading; headings inside code fences are ignored.
+ */
+function findSection(lines: string[], headers: string[]): { heading: number; end: number } | null {
+  const wanted = new Set(headers.map((header) => header.trim().toLowerCase()));
+  let inFence = false;
+  let heading = -1;
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index] ?? "";
+    if (FENCE.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+    if (heading >= 0) {
+      if (SECTION_END.test(line)) return { heading, end: index };
+      continue;
+    }
+    const name = line.match(SECTION_HEADING)?.[1];
+    if (name && wanted.has(name.toLowerCase())) heading = index;
+  }
+  return heading >= 0 ? { heading, end: lines.length } : null;
+}
+
+export function hasSection(content: string, headers: string[]): boolean {
+  return findSection(content.split("\n"), headers) !== null;
+}
+
+/** Body under a section heading, or null when the section is missing. */
+export function sectionBody(content: string, headers: string[]): string | null {
+  const lines = content.split("\n");
+  const range = findSection(lines, headers);
+  return range ? lines.slice(range.heading + 1, range.end).join("\n") : null;
+}
+
+/** Replace the body under a section heading; returns null when the section is missing. */
+export function replaceSection(content: string, headers: string[], body: string): string | null {
+  const lines = content.split("\n");
+  const range = findSection(lines, headers);
+  if (!range) return null;
+
+  const tail = lines.slice(range.end);
+  const bodyLines = body.trim() ? body.trimEnd().split("\n") : [];
+  const separator = tail.length > 0 || content.endsWith("\n") ? [""] : [];
+  return [...lines.slice(0, range.heading + 1), ...bodyLines, ...separator, ...tail].join("\n");
+}
+
+/**
+ * Add `## header` with `body` before the first section named in `beforeHeaders`,
+ * or at the end of the note when none of them exists.
+ */
+export function insertSection(
+  content: string,
+  header: string,
+  body: string,
+  beforeHeaders: string[] = []
+): string {
+  const block = [`## ${header}`, ...body.trimEnd().split("\n"), ""];
+  const lines = content.split("\n");
+  const anchor = beforeHeaders.length > 0 ? findSection(lines, beforeHeaders) : null;
+  if (anchor) {
+    return [...lines.slice(0, anchor.heading), ...block, ...lines.slice(anchor.heading)].join("\n");
+  }
+  const trimmed = content.trimEnd();
+  return trimmed ? `${trimmed}\n\n${block.join("\n")}` : block.join("\n");
+}
+
+/** Line diff via longest common subsequence; shared prefix and suffix are skipped first. */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix += 1;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const width = midB.length + 1;
+  const lcs = new Uint32Array((midA.length + 1) * width);
+  for (let i = midA.length - 1; i >= 0; i -= 1) {
+    for (let j = midB.length - 1; j >= 0; j -= 1) {
+      lcs[i * width + j] =
+        midA[i] === midB[j]
+          ? (lcs[(i + 1) * width + j + 1] ?? 0) + 1
+          : Math.max(lcs[(i + 1) * width + j] ?? 0, lcs[i * width + j + 1] ?? 0);
+    }
+  }
+
+  const result: DiffLine[] = a.slice(0, prefix).map((text) => ({ kind: "same", text }));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      result.push({ kind: "same", text: midA[i] ?? "" });
+      i += 1;
+      j += 1;
+    } else if (
+      j < midB.length &&
+      (i >= midA.length || (lcs[i * width + j + 1] ?? 0) > (lcs[(i + 1) * width + j] ?? 0))
+    ) {
+      result.push({ kind: "added", text: midB[j] ?? "" });
+      j += 1;
+    } else {
+      result.push({ kind: "removed", text: midA[i] ?? "" });
+      i += 1;
+    }
+  }
+  for (const text of a.slice(a.length - suffix)) result.push({ kind: "same", text });
+  return result;
+}
+
+/** Changed lines grouped into hunks with `context` unchanged lines around each. */
+export function diffHunks(diff: DiffLine[], context = 2): DiffLine[][] {
+  const keep = diff.map(() => false);
+  diff.forEach((line, index) => {
+    if (line.kind === "same") return;
+    const last = Math.min(diff.length - 1, index + context);
+    for (let k = Math.max(0, index - context); k <= last; k += 1) keep[k] = true;
+  });
+
+  const hunks: DiffLine[][] = [];
+  let current: DiffLine[] | null = null;
+  diff.forEach((line, index) => {
+    if (!keep[index]) {
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = [];
+      hunks.push(current);
+    }
+    current.push(line);
+  });
+  return hunks;
+}
+
+/** Keys whose frontmatter value differs from `next`; arrays compare as comma-joined text. */
+export function diffFields(
+  current: Record<string, unknown> | undefined,
+  next: Record<string, string | number | string[]>
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const [key, value] of Object.entries(next)) {
+    const before = formatField(current?.[key]);
+    const after = formatField(value);
+    if (before !== after) changes.push({ key, before, after });
+  }
+  return changes;
+}
+
+function formatField(value: unknown): string {
+  if (Array.isArray(value)) return value.map(formatField).join(", ");
+  if (typeof value === "string") return value.trim();
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  return "";
+}